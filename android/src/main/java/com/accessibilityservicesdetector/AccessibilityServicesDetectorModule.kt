@@ -12,12 +12,14 @@ import android.graphics.drawable.Drawable
 import android.os.Build
 import android.os.Bundle
 import android.provider.Settings
+import android.view.accessibility.AccessibilityEvent
 import android.view.accessibility.AccessibilityManager
 import android.util.Base64
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
-import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.ReadableArray
+import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.bridge.WritableArray
 import com.facebook.react.bridge.WritableMap
 import com.facebook.react.bridge.WritableNativeArray
@@ -37,40 +39,31 @@ class RemoteAccessApp {
   }
 }
 
-object RemoteAccessApps {
-  private val DEFAULT_REMOTE_ACCESS_APPS =
-          listOf(
-                  RemoteAccessApp("com.teamviewer.teamviewer.market.mobile"),
-                  RemoteAccessApp("com.teamviewer.quicksupport.market"),
-                  RemoteAccessApp("com.teamviewer.host.market"),
-                  RemoteAccessApp("com.anydesk.anydeskandroid"),
-                  RemoteAccessApp("com.rsupport.mvagent"),
-                  RemoteAccessApp("com.airdroid.mirroring"),
-                  RemoteAccessApp("com.sand.aircast"),
-                  RemoteAccessApp("com.sand.airmirror"),
-                  RemoteAccessApp("com.sand.airsos"),
-                  RemoteAccessApp("com.sand.aircasttv"),
-                  RemoteAccessApp("com.remotepc.viewer"),
-                  RemoteAccessApp("com.google.android.apps.chromeremotedesktop"),
-                  RemoteAccessApp("com.microsoft.rdc.android"),
-                  RemoteAccessApp("com.microsoft.intune"),
-                  RemoteAccessApp("com.realvnc.viewer.android"),
-                  RemoteAccessApp("com.iiordanov.bVNC"),
-                  RemoteAccessApp("com.logmein.rescue.mobileconsole"),
-                  RemoteAccessApp("com.airwatch.rm.agent.cloud"),
-                  RemoteAccessApp("com.splashtop.streamer.csrs"),
-                  RemoteAccessApp("com.splashtop.sos"),
-                  RemoteAccessApp("net.soti.mobicontrol.androidwork"),
-          )
+/**
+ * Whether to embed app icons in results, and at which size (null keeps the icon's own size)
+ */
+data class IconOptions(val includeIcons: Boolean = true, val iconSize: Int? = null) {
+  companion object {
+    fun fromReadableMap(options: ReadableMap?): IconOptions {
+      if (options == null) return IconOptions()
+      return IconOptions(
+        includeIcons = !options.hasKey("includeIcons") || options.getBoolean("includeIcons"),
+        iconSize = if (options.hasKey("iconSize") && !options.isNull("iconSize")) options.getInt("iconSize") else null
+      )
+    }
+  }
+}
 
+object RemoteAccessApps {
   /**
-   * Gets the combined list of default and custom remote access apps.
+   * Gets the combined list of catalog and custom remote access apps.
    *
-   * Reads custom packages from manifest metadata injected by build scripts
+   * The catalog packages are passed from JS (src/RemoteAccessAppCatalog.ts); custom packages are
+   * read from manifest metadata injected by build scripts
    */
-  fun getRemoteAccessApps(context: Context): List<RemoteAccessApp> {
+  fun getRemoteAccessApps(context: Context, catalogPackages: List<String>): List<RemoteAccessApp> {
     val customPackages = getCustomPackagesFromMetadata(context)
-    val allApps = DEFAULT_REMOTE_ACCESS_APPS.toMutableList()
+    val allApps = catalogPackages.distinct().map { RemoteAccessApp(it) }.toMutableList()
 
     // Add custom packages as RemoteAccessApp objects
     customPackages.forEach { packageName ->
@@ -80,7 +73,7 @@ object RemoteAccessApps {
     }
 
     android.util.Log.d("AccessibilityServicesDetector", 
-      "Using ${allApps.size} remote access apps (${DEFAULT_REMOTE_ACCESS_APPS.size} default + ${customPackages.size} custom)")
+      "Using ${allApps.size} remote access apps (${catalogPackages.size} catalog + ${customPackages.size} custom)")
     
     return allApps
   }
@@ -89,7 +82,7 @@ object RemoteAccessApps {
    * Reads custom packages from manifest metadata Returns list of custom package names from metadata
    * injected by build scripts
    */
-  private fun getCustomPackagesFromMetadata(context: Context): List<String> {
+  fun getCustomPackagesFromMetadata(context: Context): List<String> {
     try {
       val metadataBundle: Bundle? = context.packageManager
         .getApplicationInfo(context.packageName, PackageManager.GET_META_DATA)
@@ -124,9 +117,10 @@ object RemoteAccessApps {
 }
 
 class AccessibilityServicesDetectorModule(private val reactContext: ReactApplicationContext) :
-        ReactContextBaseJavaModule(reactContext) {
+        AccessibilityServicesDetectorSpec(reactContext) {
 
   private var isListening = false
+  private var eventIconOptions = IconOptions()
   private var accessibilityServicesStateChangeListener:
           AccessibilityManager.AccessibilityServicesStateChangeListener? =
           null
@@ -135,12 +129,12 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
     return NAME
   }
 
-  @ReactMethod fun addListener(eventName: String) {}
+  @ReactMethod override fun addListener(eventName: String) {}
 
-  @ReactMethod fun removeListeners(count: Int) {}
+  @ReactMethod override fun removeListeners(count: Double) {}
 
   @ReactMethod
-  fun openAccessibilitySettings() {
+  override fun openAccessibilitySettings() {
     val context = reactContext
     val intent = Intent(Settings.ACTION_ACCESSIBILITY_SETTINGS)
     intent.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
@@ -148,9 +142,9 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   }
 
   @ReactMethod
-  fun getEnabledAccessibilityServices(promise: Promise) {
+  override fun getEnabledAccessibilityServices(options: ReadableMap, promise: Promise) {
     try {
-      val enabledServices = getEnabledAccessibilityServicesInfo()
+      val enabledServices = getEnabledAccessibilityServicesInfo(IconOptions.fromReadableMap(options))
       val servicesArray: WritableArray = WritableNativeArray()
 
       for (serviceInfo in enabledServices) {
@@ -164,9 +158,9 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   }
 
   @ReactMethod
-  fun hasEnabledAccessibilityServices(promise: Promise) {
+  override fun hasEnabledAccessibilityServices(promise: Promise) {
     try {
-      val enabledServices = getEnabledAccessibilityServicesInfo()
+      val enabledServices = getEnabledAccessibilityServicesInfo(IconOptions(includeIcons = false))
       promise.resolve(enabledServices.isNotEmpty())
     } catch (e: Exception) {
       promise.reject(
@@ -178,7 +172,7 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   }
 
   @ReactMethod
-  fun startListening(promise: Promise) {
+  override fun startListening(promise: Promise) {
     try {
       if (isListening) {
         promise.resolve(null)
@@ -216,7 +210,7 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   }
 
   @ReactMethod
-  fun stopListening(promise: Promise) {
+  override fun stopListening(promise: Promise) {
     try {
       if (!isListening || accessibilityServicesStateChangeListener == null) {
         promise.resolve(null)
@@ -259,10 +253,13 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
     }
   }
 
-  private fun getInstalledRemoteAccessApps(packageManager: PackageManager): List<RemoteAccessApp> {
+  private fun getInstalledRemoteAccessApps(
+          packageManager: PackageManager,
+          catalogPackages: List<String>
+  ): List<RemoteAccessApp> {
     val detectedApps = mutableListOf<RemoteAccessApp>()
     try {
-      val remoteAccessApps = RemoteAccessApps.getRemoteAccessApps(reactContext)
+      val remoteAccessApps = RemoteAccessApps.getRemoteAccessApps(reactContext, catalogPackages)
 
       remoteAccessApps.forEach { remoteApp ->
         if (isPackageInstalled(remoteApp.packageName, packageManager)) {
@@ -280,6 +277,9 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
         }
       }
       return detectedApps
+    } catch (e: SecurityException) {
+      // Let the caller report restricted package visibility instead of an empty list
+      throw e
     } catch (e: Exception) {
       android.util.Log.e(NAME, "Error getting installed apps", e)
       return emptyList()
@@ -287,32 +287,89 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   }
 
   @ReactMethod
-  fun getInstalledRemoteAccessApps(promise: Promise) {
+  override fun getInstalledRemoteAccessApps(
+          packageNames: ReadableArray,
+          options: ReadableMap,
+          promise: Promise
+  ) {
     try {
-      val installedApps = getInstalledRemoteAccessApps(reactContext.packageManager)
+      val iconOptions = IconOptions.fromReadableMap(options)
+      val catalogPackages = (0 until packageNames.size()).mapNotNull { packageNames.getString(it) }
+      val installedApps = getInstalledRemoteAccessApps(reactContext.packageManager, catalogPackages)
       val installedAppsArray: WritableArray = WritableNativeArray()
       for (pkg in installedApps) {
         val map = WritableNativeMap()
         map.putString("packageName", pkg.packageName)
         map.putString("appName", pkg.appName)
         // Add app icon as data URL if available
-        try {
-          val iconDataUrl = getAppIconDataUrl(reactContext.packageManager, pkg.packageName)
-          if (iconDataUrl != null) {
-            map.putString("appIcon", iconDataUrl)
+        if (iconOptions.includeIcons) {
+          try {
+            val iconDataUrl =
+                    getAppIconDataUrl(reactContext.packageManager, pkg.packageName, iconOptions.iconSize)
+            if (iconDataUrl != null) {
+              map.putString("appIcon", iconDataUrl)
+            }
+          } catch (e: Exception) {
+            android.util.Log.w(NAME, "Failed to load icon for ${pkg.packageName}", e)
           }
-        } catch (e: Exception) {
-          android.util.Log.w(NAME, "Failed to load icon for ${pkg.packageName}", e)
         }
         installedAppsArray.pushMap(map)
       }
       promise.resolve(installedAppsArray)
+    } catch (e: SecurityException) {
+      promise.reject("VISIBILITY_RESTRICTED", "Package visibility is restricted", e)
     } catch (e: Exception) {
       promise.reject("GET_INSTALLED_APPS_ERROR", "Failed to get installed apps", e)
     }
   }
 
-  private fun getEnabledAccessibilityServicesInfo(): List<WritableMap> {
+  @ReactMethod
+  override fun getAppIcon(packageName: String, size: Double?, promise: Promise) {
+    try {
+      promise.resolve(getAppIconDataUrl(reactContext.packageManager, packageName, size?.toInt()))
+    } catch (e: SecurityException) {
+      promise.reject("VISIBILITY_RESTRICTED", "Package visibility is restricted", e)
+    } catch (e: Exception) {
+      promise.reject("GET_APP_ICON_ERROR", "Failed to get the icon of $packageName", e)
+    }
+  }
+
+  /**
+   * Reports the custom packages declared in the manifest meta-data and whether every package is
+   * visible (below Android 11, or with the QUERY_ALL_PACKAGES permission)
+   */
+  @ReactMethod
+  override fun getPackageVisibility(promise: Promise) {
+    try {
+      val manifestPackages: WritableArray = WritableNativeArray()
+      RemoteAccessApps.getCustomPackagesFromMetadata(reactContext).forEach {
+        manifestPackages.pushString(it)
+      }
+      val canQueryAllPackages =
+              Build.VERSION.SDK_INT < Build.VERSION_CODES.R ||
+                      reactContext.packageManager.checkPermission(
+                              "android.permission.QUERY_ALL_PACKAGES",
+                              reactContext.packageName
+                      ) == PackageManager.PERMISSION_GRANTED
+
+      val map = WritableNativeMap()
+      map.putArray("manifestPackages", manifestPackages)
+      map.putBoolean("canQueryAllPackages", canQueryAllPackages)
+      promise.resolve(map)
+    } catch (e: Exception) {
+      promise.reject("GET_PACKAGE_VISIBILITY_ERROR", "Failed to get package visibility", e)
+    }
+  }
+
+  /**
+   * Sets the icon options used for AccessibilityServicesChanged events
+   */
+  @ReactMethod
+  override fun setIconOptions(options: ReadableMap) {
+    eventIconOptions = IconOptions.fromReadableMap(options)
+  }
+
+  private fun getEnabledAccessibilityServicesInfo(iconOptions: IconOptions): List<WritableMap> {
     val enabledServices = mutableListOf<WritableMap>()
 
     try {
@@ -332,6 +389,7 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
                 createServiceInfoMap(
                         serviceInfo,
                         packageManager,
+                        iconOptions,
                 )
         enabledServices.add(serviceMap)
       }
@@ -346,6 +404,7 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   private fun createServiceInfoMap(
           a11yServiceInfo: AccessibilityServiceInfo,
           packageManager: PackageManager,
+          iconOptions: IconOptions,
   ): WritableMap {
     val map: WritableMap = WritableNativeMap()
 
@@ -367,12 +426,35 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
 
       // Service Info
       map.putInt("feedbackType", a11yServiceInfo.feedbackType)
-      map.putString(
-              "feedbackTypeNames",
-              AccessibilityServiceInfo.feedbackTypeToString(a11yServiceInfo.feedbackType)
-      )
+      map.putArray("feedbackTypeNames", getFeedbackTypeNames(a11yServiceInfo.feedbackType))
       map.putBoolean("isAccessibilityTool", a11yServiceInfo.isAccessibilityTool)
 
+      // Capabilities
+      map.putInt("eventTypes", a11yServiceInfo.eventTypes)
+      map.putArray("eventTypeNames", getEventTypeNames(a11yServiceInfo.eventTypes))
+      map.putInt("flags", a11yServiceInfo.flags)
+      map.putArray(
+              "flagNames",
+              bitmaskToNames(a11yServiceInfo.flags) { AccessibilityServiceInfo.flagToString(it) }
+      )
+      map.putInt("capabilities", a11yServiceInfo.capabilities)
+      map.putArray(
+              "capabilityNames",
+              bitmaskToNames(a11yServiceInfo.capabilities) {
+                AccessibilityServiceInfo.capabilityToString(it)
+              }
+      )
+      map.putBoolean(
+              "canRetrieveWindowContent",
+              (a11yServiceInfo.capabilities and
+                      AccessibilityServiceInfo.CAPABILITY_CAN_RETRIEVE_WINDOW_CONTENT) != 0
+      )
+      a11yServiceInfo.loadDescription(packageManager)?.let { map.putString("description", it) }
+      a11yServiceInfo.settingsActivityName?.let { map.putString("settingsActivityName", it) }
+      val targetedPackageNames: WritableArray = WritableNativeArray()
+      a11yServiceInfo.packageNames?.forEach { targetedPackageNames.pushString(it) }
+      map.putArray("targetedPackageNames", targetedPackageNames)
+
       // App Info
       val appInfo = a11yServiceInfo.resolveInfo?.serviceInfo?.applicationInfo
       map.putString("sourceDir", appInfo?.sourceDir)
@@ -380,8 +462,8 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
 
       // Add app icon as data URL if available
       try {
-        if (packageName != null) {
-          val iconDataUrl = getAppIconDataUrl(packageManager, packageName)
+        if (packageName != null && iconOptions.includeIcons) {
+          val iconDataUrl = getAppIconDataUrl(packageManager, packageName, iconOptions.iconSize)
           if (iconDataUrl != null) {
             map.putString("appIcon", iconDataUrl)
           }
@@ -403,38 +485,47 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
             (appFlags and ApplicationInfo.FLAG_UPDATED_SYSTEM_APP) != 0
   }
 
-  private fun getFeedbackTypeNames(feedbackType: Int): List<String> {
-    val names = mutableListOf<String>()
-
-    if (feedbackType and AccessibilityServiceInfo.FEEDBACK_SPOKEN != 0) {
-      names.add("Spoken")
-    }
-    if (feedbackType and AccessibilityServiceInfo.FEEDBACK_HAPTIC != 0) {
-      names.add("Haptic")
-    }
-    if (feedbackType and AccessibilityServiceInfo.FEEDBACK_AUDIBLE != 0) {
-      names.add("Audible")
-    }
-    if (feedbackType and AccessibilityServiceInfo.FEEDBACK_VISUAL != 0) {
-      names.add("Visual")
-    }
-    if (feedbackType and AccessibilityServiceInfo.FEEDBACK_GENERIC != 0) {
-      names.add("Generic")
-    }
-    if (feedbackType and AccessibilityServiceInfo.FEEDBACK_BRAILLE != 0) {
-      names.add("Braille")
+  /**
+   * Names of the event types a service listens to, matching AccessibilityServiceEventType in JS
+   */
+  private fun getEventTypeNames(eventTypes: Int): WritableArray {
+    if (eventTypes == AccessibilityEvent.TYPES_ALL_MASK) {
+      val names: WritableArray = WritableNativeArray()
+      names.pushString("TYPES_ALL_MASK")
+      return names
     }
+    return bitmaskToNames(eventTypes) { AccessibilityEvent.eventTypeToString(it) }
+  }
 
-    if (names.isEmpty()) {
-      names.add("None")
+  /**
+   * Names of the bits set in a mask, lowest bit first, skipping bits the platform has no name for
+   */
+  private fun bitmaskToNames(mask: Int, toName: (Int) -> String?): WritableArray {
+    val names: WritableArray = WritableNativeArray()
+    for (bit in 0 until Int.SIZE_BITS) {
+      val value = 1 shl bit
+      if (mask and value == 0) continue
+      val name = toName(value)
+      if (name != null && name != "UNKNOWN" && BITMASK_NAME_PATTERN.matches(name)) {
+        names.pushString(name)
+      }
     }
-
     return names
   }
 
+  /**
+   * Names of the feedback types a service provides, matching AccessibilityServiceFeedbackType in JS
+   */
+  private fun getFeedbackTypeNames(feedbackType: Int): WritableArray {
+    // feedbackTypeToString wraps names in brackets, e.g. "[FEEDBACK_SPOKEN]"
+    return bitmaskToNames(feedbackType) {
+      AccessibilityServiceInfo.feedbackTypeToString(it).trim('[', ']')
+    }
+  }
+
   private fun sendAccessibilityServicesChangedEvent() {
     try {
-      val enabledServices = getEnabledAccessibilityServicesInfo()
+      val enabledServices = getEnabledAccessibilityServicesInfo(eventIconOptions)
       val servicesArray: WritableArray = WritableNativeArray()
 
       for (serviceInfo in enabledServices) {
@@ -477,21 +568,29 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   }
 
   @ReactMethod(isBlockingSynchronousMethod = true)
-  fun getIsListening(): Boolean {
+  override fun getIsListening(): Boolean {
     return isListening
   }
 
   companion object {
     const val NAME = "AccessibilityServicesDetector"
+
+    // Platform names are constant-style; unknown bits come back as hex or "UNKNOWN"
+    private val BITMASK_NAME_PATTERN = Regex("^[A-Z][A-Z0-9_]*$")
   }
 
   /**
-   * Loads the application icon for the given package and returns it as a PNG data URL.
+   * Loads the application icon for the given package and returns it as a PNG data URL,
+   * scaled to size x size pixels when a size is given.
    */
-  private fun getAppIconDataUrl(packageManager: PackageManager, packageName: String): String? {
+  private fun getAppIconDataUrl(
+          packageManager: PackageManager,
+          packageName: String,
+          size: Int? = null
+  ): String? {
     return try {
       val drawable: Drawable = packageManager.getApplicationIcon(packageName)
-      val bitmap = drawableToBitmap(drawable) ?: return null
+      val bitmap = drawableToBitmap(drawable, size) ?: return null
       val outputStream = ByteArrayOutputStream()
       bitmap.compress(Bitmap.CompressFormat.PNG, 100, outputStream)
       val byteArray = outputStream.toByteArray()
@@ -504,15 +603,18 @@ class AccessibilityServicesDetectorModule(private val reactContext: ReactApplica
   }
 
   /**
-   * Converts a Drawable to a Bitmap, preserving intrinsic size when possible.
+   * Converts a Drawable to a Bitmap of the given size, preserving intrinsic size when none is given.
    */
-  private fun drawableToBitmap(drawable: Drawable): Bitmap? {
+  private fun drawableToBitmap(drawable: Drawable, size: Int? = null): Bitmap? {
     return try {
       if (drawable is BitmapDrawable) {
-        return drawable.bitmap
+        if (size == null) {
+          return drawable.bitmap
+        }
+        return Bitmap.createScaledBitmap(drawable.bitmap, size, size, true)
       }
-      val width = if (drawable.intrinsicWidth > 0) drawable.intrinsicWidth else 96
-      val height = if (drawable.intrinsicHeight > 0) drawable.intrinsicHeight else 96
+      val width = size ?: if (drawable.intrinsicWidth > 0) drawable.intrinsicWidth else 96
+      val height = size ?: if (drawable.intrinsicHeight > 0) drawable.intrinsicHeight else 96
       val bitmap = Bitmap.createBitmap(width, height, Bitmap.Config.ARGB_8888)
       val canvas = Canvas(bitmap)
       drawable.setBounds(0, 0, canvas.width, canvas.height)
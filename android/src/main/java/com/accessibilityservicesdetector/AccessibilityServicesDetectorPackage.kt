@@ -1,17 +1,34 @@
 package com.accessibilityservicesdetector
 
-import com.facebook.react.ReactPackage
+import com.facebook.react.BaseReactPackage
 import com.facebook.react.bridge.NativeModule
 import com.facebook.react.bridge.ReactApplicationContext
-import com.facebook.react.uimanager.ViewManager
+import com.facebook.react.module.model.ReactModuleInfo
+import com.facebook.react.module.model.ReactModuleInfoProvider
 
 
-class AccessibilityServicesDetectorPackage : ReactPackage {
-  override fun createNativeModules(reactContext: ReactApplicationContext): List<NativeModule> {
-    return listOf(AccessibilityServicesDetectorModule(reactContext))
+class AccessibilityServicesDetectorPackage : BaseReactPackage() {
+  override fun getModule(name: String, reactContext: ReactApplicationContext): NativeModule? {
+    return if (name == AccessibilityServicesDetectorModule.NAME) {
+      AccessibilityServicesDetectorModule(reactContext)
+    } else {
+      null
+    }
   }
 
-  override fun createViewManagers(reactContext: ReactApplicationContext): List<ViewManager<*, *>> {
-    return emptyList()
+  override fun getReactModuleInfoProvider(): ReactModuleInfoProvider {
+    return ReactModuleInfoProvider {
+      mapOf(
+        AccessibilityServicesDetectorModule.NAME to
+          ReactModuleInfo(
+            AccessibilityServicesDetectorModule.NAME,
+            AccessibilityServicesDetectorModule.NAME,
+            false, // canOverrideExistingModule
+            false, // needsEagerInit
+            false, // isCxxModule
+            BuildConfig.IS_NEW_ARCHITECTURE_ENABLED // isTurboModule
+          )
+      )
+    }
   }
 }
@@ -0,0 +1,9 @@
+package com.accessibilityservicesdetector
+
+import com.facebook.react.bridge.ReactApplicationContext
+
+/**
+ * New Architecture base class: the spec generated by codegen from src/NativeAccessibilityServicesDetector.ts
+ */
+abstract class AccessibilityServicesDetectorSpec internal constructor(context: ReactApplicationContext) :
+        NativeAccessibilityServicesDetectorSpec(context)
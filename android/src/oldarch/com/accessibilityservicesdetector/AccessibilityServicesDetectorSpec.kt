@@ -0,0 +1,39 @@
+package com.accessibilityservicesdetector
+
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReadableArray
+import com.facebook.react.bridge.ReadableMap
+
+/**
+ * Old Architecture base class, mirroring the spec codegen generates from
+ * src/NativeAccessibilityServicesDetector.ts so the module compiles against both
+ */
+abstract class AccessibilityServicesDetectorSpec internal constructor(context: ReactApplicationContext) :
+        ReactContextBaseJavaModule(context) {
+
+  abstract fun getEnabledAccessibilityServices(options: ReadableMap, promise: Promise)
+
+  abstract fun hasEnabledAccessibilityServices(promise: Promise)
+
+  abstract fun startListening(promise: Promise)
+
+  abstract fun stopListening(promise: Promise)
+
+  abstract fun getIsListening(): Boolean
+
+  abstract fun openAccessibilitySettings()
+
+  abstract fun getInstalledRemoteAccessApps(packageNames: ReadableArray, options: ReadableMap, promise: Promise)
+
+  abstract fun getAppIcon(packageName: String, size: Double?, promise: Promise)
+
+  abstract fun setIconOptions(options: ReadableMap)
+
+  abstract fun getPackageVisibility(promise: Promise)
+
+  abstract fun addListener(eventName: String)
+
+  abstract fun removeListeners(count: Double)
+}
@@ -15,6 +15,7 @@ import {
 } from 'react-native';
 import AccessibilityServicesDetector, {
   getEnabledAccessibilityServices,
+  getFeedbackTypeLabels,
   hasEnabledAccessibilityServices,
   type AccessibilityServiceInfo,
   type RemoteAccessApp,
@@ -160,12 +161,12 @@ export default function App(): React.JSX.Element {
                   {service.isAccessibilityTool ? 'Yes' : 'No'}
                 </Text>
 
-                {service.feedbackTypeNames &&
-                  service.feedbackTypeNames.length > 0 && (
-                    <Text style={styles.detailText}>
-                      {/* Feedback: {service.feedbackTypeNames?.join(', ')} */}
-                    </Text>
-                  )}
+                {service.feedbackTypeNames.length > 0 && (
+                  <Text style={styles.detailText}>
+                    Feedback:{' '}
+                    {getFeedbackTypeLabels(service.feedbackType).join(', ')}
+                  </Text>
+                )}
               </View>
             </View>
           </Pressable>
@@ -1,26 +1,167 @@
 #import <React/RCTBridgeModule.h>
 
-@interface RCT_EXTERN_MODULE(AccessibilityServicesDetector, NSObject)
+#ifdef RCT_NEW_ARCH_ENABLED
+#import <RNAccessibilityServicesDetectorSpec/RNAccessibilityServicesDetectorSpec.h>
+#endif
 
-RCT_EXTERN_METHOD(getEnabledAccessibilityServices:(RCTPromiseResolveBlock)resolve
-                 withRejecter:(RCTPromiseRejectBlock)reject)
+#if __has_include("AccessibilityServicesDetector-Swift.h")
+#import "AccessibilityServicesDetector-Swift.h"
+#else
+#import <AccessibilityServicesDetector/AccessibilityServicesDetector-Swift.h>
+#endif
 
-RCT_EXTERN_METHOD(hasEnabledAccessibilityServices:(RCTPromiseResolveBlock)resolve
-                 withRejecter:(RCTPromiseRejectBlock)reject)
+// Conforms to the codegen spec in src/NativeAccessibilityServicesDetector.ts on
+// the New Architecture, and exports the same methods to the bridge otherwise
+#ifdef RCT_NEW_ARCH_ENABLED
+@interface AccessibilityServicesDetector : NSObject <NativeAccessibilityServicesDetectorSpec>
+#else
+@interface AccessibilityServicesDetector : NSObject <RCTBridgeModule>
+#endif
+@end
 
-RCT_EXTERN_METHOD(startListening:(RCTPromiseResolveBlock)resolve
-                 withRejecter:(RCTPromiseRejectBlock)reject)
+#ifdef RCT_NEW_ARCH_ENABLED
+static NSDictionary *IconOptionsToDictionary(JS::NativeAccessibilityServicesDetector::NativeIconOptions &options)
+{
+  return @{
+    @"includeIcons" : @(options.includeIcons()),
+    @"iconSize" : options.iconSize().has_value() ? @(options.iconSize().value()) : [NSNull null],
+  };
+}
+#endif
 
-RCT_EXTERN_METHOD(stopListening:(RCTPromiseResolveBlock)resolve
-                 withRejecter:(RCTPromiseRejectBlock)reject)
+@implementation AccessibilityServicesDetector {
+  AccessibilityServicesDetectorImpl *_impl;
+}
 
-RCT_EXTERN_METHOD(openAppAccessibilitySettings:(NSString *)packageName)
+RCT_EXPORT_MODULE()
 
-RCT_EXTERN_METHOD(getIsListening)
+- (instancetype)init
+{
+  if (self = [super init]) {
+    _impl = [AccessibilityServicesDetectorImpl new];
+  }
+  return self;
+}
 
 + (BOOL)requiresMainQueueSetup
 {
   return NO;
 }
 
+#ifdef RCT_NEW_ARCH_ENABLED
+RCT_EXPORT_METHOD(getEnabledAccessibilityServices:(JS::NativeAccessibilityServicesDetector::NativeIconOptions &)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl getEnabledAccessibilityServices:IconOptionsToDictionary(options) withResolver:resolve withRejecter:reject];
+}
+#else
+RCT_EXPORT_METHOD(getEnabledAccessibilityServices:(NSDictionary *)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl getEnabledAccessibilityServices:options withResolver:resolve withRejecter:reject];
+}
+#endif
+
+RCT_EXPORT_METHOD(hasEnabledAccessibilityServices:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl hasEnabledAccessibilityServices:resolve withRejecter:reject];
+}
+
+RCT_EXPORT_METHOD(startListening:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl startListening:resolve withRejecter:reject];
+}
+
+RCT_EXPORT_METHOD(stopListening:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl stopListening:resolve withRejecter:reject];
+}
+
+RCT_EXPORT_METHOD(openAccessibilitySettings)
+{
+  [_impl openAccessibilitySettings];
+}
+
+#ifdef RCT_NEW_ARCH_ENABLED
+- (NSNumber *)getIsListening
+{
+  return [_impl getIsListening];
+}
+#else
+RCT_EXPORT_BLOCKING_SYNCHRONOUS_METHOD(getIsListening)
+{
+  return [_impl getIsListening];
+}
+#endif
+
+#ifdef RCT_NEW_ARCH_ENABLED
+RCT_EXPORT_METHOD(getInstalledRemoteAccessApps:(NSArray *)packageNames
+                  options:(JS::NativeAccessibilityServicesDetector::NativeIconOptions &)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl getInstalledRemoteAccessApps:packageNames
+                              options:IconOptionsToDictionary(options)
+                         withResolver:resolve
+                         withRejecter:reject];
+}
+#else
+RCT_EXPORT_METHOD(getInstalledRemoteAccessApps:(NSArray *)packageNames
+                  options:(NSDictionary *)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl getInstalledRemoteAccessApps:packageNames options:options withResolver:resolve withRejecter:reject];
+}
+#endif
+
+RCT_EXPORT_METHOD(getAppIcon:(NSString *)packageName
+                  size:(NSNumber *)size
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl getAppIcon:packageName size:size withResolver:resolve withRejecter:reject];
+}
+
+#ifdef RCT_NEW_ARCH_ENABLED
+RCT_EXPORT_METHOD(setIconOptions:(JS::NativeAccessibilityServicesDetector::NativeIconOptions &)options)
+{
+  [_impl setIconOptions:IconOptionsToDictionary(options)];
+}
+#else
+RCT_EXPORT_METHOD(setIconOptions:(NSDictionary *)options)
+{
+  [_impl setIconOptions:options];
+}
+#endif
+
+RCT_EXPORT_METHOD(getPackageVisibility:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+{
+  [_impl getPackageVisibility:resolve withRejecter:reject];
+}
+
+RCT_EXPORT_METHOD(addListener:(NSString *)eventName)
+{
+  [_impl addListener:eventName];
+}
+
+RCT_EXPORT_METHOD(removeListeners:(double)count)
+{
+  [_impl removeListeners:count];
+}
+
+#ifdef RCT_NEW_ARCH_ENABLED
+- (std::shared_ptr<facebook::react::TurboModule>)getTurboModule:
+    (const facebook::react::ObjCTurboModule::InitParams &)params
+{
+  return std::make_shared<facebook::react::NativeAccessibilityServicesDetectorSpecJSI>(params);
+}
+#endif
+
 @end
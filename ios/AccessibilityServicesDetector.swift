@@ -1,41 +1,75 @@
 import Foundation
 
-@objc(AccessibilityServicesDetector)
-class AccessibilityServicesDetector: NSObject {
+// Implementation of the module, exposed to JS by AccessibilityServicesDetector.mm
+@objc(AccessibilityServicesDetectorImpl)
+public class AccessibilityServicesDetectorImpl: NSObject {
 
-  @objc(getEnabledAccessibilityServices:withRejecter:)
-  func getEnabledAccessibilityServices(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+  @objc(getEnabledAccessibilityServices:withResolver:withRejecter:)
+  public func getEnabledAccessibilityServices(options: NSDictionary, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
     // No-op for iOS - return empty array
     resolve([])
   }
 
   @objc(hasEnabledAccessibilityServices:withRejecter:)
-  func hasEnabledAccessibilityServices(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+  public func hasEnabledAccessibilityServices(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
     // No-op for iOS - return false
     resolve(false)
   }
 
   @objc(startListening:withRejecter:)
-  func startListening(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+  public func startListening(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
     // No-op for iOS - do nothing
     resolve(NSNull())
   }
 
   @objc(stopListening:withRejecter:)
-  func stopListening(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+  public func stopListening(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
     // No-op for iOS - do nothing
     resolve(NSNull())
   }
 
-  @objc(openAppAccessibilitySettings:)
-  func openAppAccessibilitySettings(packageName: String) -> Void {
-    // No-op for iOS - accessibility settings are not app-specific on iOS
-    print("openAppAccessibilitySettings called for package: \(packageName) - iOS does not support app-specific accessibility settings")
+  @objc(openAccessibilitySettings)
+  public func openAccessibilitySettings() -> Void {
+    // No-op for iOS - apps cannot open the accessibility settings directly
+    print("openAccessibilitySettings called - iOS does not support opening the accessibility settings")
   }
 
   @objc(getIsListening)
-  func getIsListening() -> Bool {
+  public func getIsListening() -> NSNumber {
     // No-op for iOS - always return false
     return false
   }
+
+  @objc(getInstalledRemoteAccessApps:options:withResolver:withRejecter:)
+  public func getInstalledRemoteAccessApps(packageNames: NSArray, options: NSDictionary, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+    // No-op for iOS - return empty array
+    resolve([])
+  }
+
+  @objc(getAppIcon:size:withResolver:withRejecter:)
+  public func getAppIcon(packageName: String, size: NSNumber?, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+    // No-op for iOS - other apps' icons are not accessible
+    resolve(NSNull())
+  }
+
+  @objc(setIconOptions:)
+  public func setIconOptions(options: NSDictionary) -> Void {
+    // No-op for iOS - no change events are emitted
+  }
+
+  @objc(getPackageVisibility:withRejecter:)
+  public func getPackageVisibility(resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) -> Void {
+    // No-op for iOS - there are no Android package visibility rules
+    resolve(["manifestPackages": [], "canQueryAllPackages": false])
+  }
+
+  @objc(addListener:)
+  public func addListener(eventName: String) -> Void {
+    // No-op for iOS - no events are emitted
+  }
+
+  @objc(removeListeners:)
+  public func removeListeners(count: Double) -> Void {
+    // No-op for iOS - no events are emitted
+  }
 }
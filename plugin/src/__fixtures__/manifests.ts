@@ -0,0 +1,143 @@
+/**
+ * AndroidManifest.xml fixtures in the shape the config plugin receives from
+ * `withAndroidManifest` (parsed with xml2js). Each is a function so every
+ * test gets a fresh copy to mutate. They are asserted as `AndroidManifest`
+ * because parsed XML does not always match that type, e.g. `<queries>`
+ * without `<package>` children.
+ */
+import type { AndroidManifest } from '@expo/config-plugins/build/android/Manifest';
+
+/**
+ * Manifest generated by `expo prebuild` from the default template, which
+ * already queries browsable https intents
+ */
+export const expoTemplateManifest = () =>
+  ({
+    manifest: {
+      '$': {
+        'xmlns:android': 'http://schemas.android.com/apk/res/android',
+        'xmlns:tools': 'http://schemas.android.com/tools',
+      },
+      'uses-permission': [
+        { $: { 'android:name': 'android.permission.INTERNET' } },
+        { $: { 'android:name': 'android.permission.VIBRATE' } },
+      ],
+      'queries': [
+        {
+          intent: [
+            {
+              action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+              category: [
+                { $: { 'android:name': 'android.intent.category.BROWSABLE' } },
+              ],
+              data: [{ $: { 'android:scheme': 'https' } }],
+            },
+          ],
+        },
+      ],
+      'application': [
+        {
+          '$': {
+            'android:name': '.MainApplication',
+            'android:label': '@string/app_name',
+            'android:allowBackup': 'true',
+          },
+          'meta-data': [
+            {
+              $: {
+                'android:name': 'expo.modules.updates.ENABLED',
+                'android:value': 'false',
+              },
+            },
+          ],
+          'activity': [
+            {
+              $: {
+                'android:name': '.MainActivity',
+                'android:exported': 'true',
+              },
+            },
+          ],
+        },
+      ],
+    },
+  }) as AndroidManifest;
+
+/**
+ * Manifest where other plugins added their own `<queries>` elements, one of
+ * them already declaring a catalog package
+ */
+export const multipleQueriesManifest = () =>
+  ({
+    manifest: {
+      $: {
+        'xmlns:android': 'http://schemas.android.com/apk/res/android',
+      },
+      queries: [
+        {
+          intent: [
+            {
+              action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+              data: [{ $: { 'android:scheme': 'vnc' } }],
+            },
+          ],
+        },
+        {
+          package: [
+            { $: { 'android:name': 'com.anydesk.anydeskandroid' } },
+            { $: { 'android:name': 'com.whatsapp' } },
+          ],
+        },
+      ],
+      application: [{ $: { 'android:name': '.MainApplication' } }],
+    },
+  }) as AndroidManifest;
+
+/**
+ * Manifest kept from a previous prebuild that injected different custom packages
+ */
+export const previousPrebuildManifest = () =>
+  ({
+    manifest: {
+      $: {
+        'xmlns:android': 'http://schemas.android.com/apk/res/android',
+      },
+      queries: [
+        {
+          package: [{ $: { 'android:name': 'com.example.oldsupport' } }],
+        },
+      ],
+      application: [
+        {
+          'meta-data': [
+            {
+              $: {
+                'android:name':
+                  'com.accessibilityservicesdetector.CUSTOM_PACKAGES',
+                'android:value': 'com.example.oldsupport',
+              },
+            },
+            {
+              $: {
+                'android:name': 'expo.modules.updates.ENABLED',
+                'android:value': 'false',
+              },
+            },
+          ],
+        },
+      ],
+    },
+  }) as AndroidManifest;
+
+/**
+ * Library-style manifest without an `<application>` element
+ */
+export const noApplicationManifest = () =>
+  ({
+    manifest: {
+      $: {
+        'xmlns:android': 'http://schemas.android.com/apk/res/android',
+        'package': 'com.example.library',
+      },
+    },
+  }) as AndroidManifest;
@@ -0,0 +1,101 @@
+import { REMOTE_ACCESS_APP_PACKAGES } from '../../../src/RemoteAccessAppCatalog';
+import { auditManifest } from '../audit';
+import { applyManifestMods } from '../manifest';
+import {
+  expoTemplateManifest,
+  multipleQueriesManifest,
+  noApplicationManifest,
+  previousPrebuildManifest,
+} from '../__fixtures__/manifests';
+
+describe('auditManifest', () => {
+  it('reports the catalog packages missing from a manifest', () => {
+    const manifest = multipleQueriesManifest();
+    const result = auditManifest(manifest);
+
+    expect(result.missingPackages).toEqual(
+      REMOTE_ACCESS_APP_PACKAGES.filter(
+        (packageName) => packageName !== 'com.anydesk.anydeskandroid'
+      )
+    );
+    expect(result.isUpToDate).toBe(false);
+    // The audited manifest is left untouched
+    expect(manifest).toEqual(multipleQueriesManifest());
+  });
+
+  it('reports outdated and stale custom packages metadata', () => {
+    const options = {
+      excludeDefaultPackages: true,
+      customPackages: ['com.example.oldsupport'],
+    };
+    expect(
+      auditManifest(previousPrebuildManifest(), {
+        ...options,
+        customPackages: ['com.example.support'],
+      })
+    ).toMatchObject({
+      missingPackages: ['com.example.support'],
+      currentMetadata: 'com.example.oldsupport',
+      expectedMetadata: 'com.example.support',
+      isUpToDate: false,
+    });
+    expect(
+      auditManifest(previousPrebuildManifest(), {
+        excludeDefaultPackages: true,
+      })
+    ).toMatchObject({ missingPackages: [], expectedMetadata: null });
+    expect(auditManifest(previousPrebuildManifest(), options).isUpToDate).toBe(
+      true
+    );
+  });
+
+  it('reports packages a previous prebuild added that are now excluded', () => {
+    const manifest = applyManifestMods(expoTemplateManifest(), {
+      logLevel: 'silent',
+    });
+
+    expect(
+      auditManifest(manifest, {
+        excludeDefaultPackages: ['com.microsoft.intune'],
+      })
+    ).toMatchObject({
+      missingPackages: [],
+      stalePackages: ['com.microsoft.intune'],
+      isUpToDate: false,
+    });
+  });
+
+  it('ignores the metadata when it is not injected', () => {
+    const result = auditManifest(previousPrebuildManifest(), {
+      excludeDefaultPackages: true,
+      injectMetadata: false,
+    });
+    expect(result.isUpToDate).toBe(true);
+  });
+
+  it('finds nothing to do on a manifest the plugin already ran on', () => {
+    const options = {
+      customPackages: ['com.example.support'],
+      intentQueries: [{ action: 'android.intent.action.VIEW' }],
+      logLevel: 'silent' as const,
+    };
+    const manifest = applyManifestMods(expoTemplateManifest(), options);
+
+    expect(auditManifest(manifest, options)).toEqual({
+      missingPackages: [],
+      stalePackages: [],
+      missingIntentCount: 0,
+      currentMetadata: 'com.example.support',
+      expectedMetadata: 'com.example.support',
+      isUpToDate: true,
+    });
+  });
+
+  it('throws when the plugin cannot be applied', () => {
+    expect(() =>
+      auditManifest(noApplicationManifest(), {
+        customPackages: ['com.example.support'],
+      })
+    ).toThrow('has no <application> element');
+  });
+});
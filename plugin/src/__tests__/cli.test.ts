@@ -0,0 +1,119 @@
+import { AndroidConfig } from '@expo/config-plugins';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { auditManifest } from '../audit';
+import { run } from '../cli';
+import { expoTemplateManifest } from '../__fixtures__/manifests';
+
+describe('rn-a11y-detector manifest', () => {
+  let directory: string;
+  let manifestPath: string;
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  const output = (spy: jest.SpyInstance) =>
+    spy.mock.calls.map((args) => args.join(' ')).join('\n');
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rn-a11y-detector-'));
+    manifestPath = path.join(directory, 'AndroidManifest.xml');
+    await AndroidConfig.Manifest.writeAndroidManifestAsync(
+      manifestPath,
+      expoTemplateManifest()
+    );
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    error.mockRestore();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('exits with 1 and lists the missing entries of an outdated manifest', async () => {
+    const before = fs.readFileSync(manifestPath, 'utf8');
+
+    await expect(run(['manifest', 'check', manifestPath])).resolves.toBe(1);
+    expect(output(log)).toContain(
+      'missing <package android:name="com.anydesk.anydeskandroid" />'
+    );
+    expect(fs.readFileSync(manifestPath, 'utf8')).toBe(before);
+  });
+
+  it('rewrites the manifest so a later check passes', async () => {
+    await expect(
+      run([
+        'manifest',
+        'fix',
+        manifestPath,
+        '--custom-package',
+        'com.example.support',
+      ])
+    ).resolves.toBe(0);
+
+    const fixed =
+      await AndroidConfig.Manifest.readAndroidManifestAsync(manifestPath);
+    expect(
+      auditManifest(fixed, { customPackages: ['com.example.support'] })
+    ).toMatchObject({ isUpToDate: true });
+    await expect(
+      run([
+        'manifest',
+        'check',
+        manifestPath,
+        '--custom-package',
+        'com.example.support',
+      ])
+    ).resolves.toBe(0);
+    expect(output(log)).toContain(`${manifestPath} is up to date`);
+  });
+
+  it.each([
+    [[]],
+    [['manifest']],
+    [['manifest', 'update']],
+    [['audit', 'check']],
+    [['manifest', 'check', 'a.xml', 'b.xml']],
+  ])('prints the usage and exits with 2 for %j', async (argv) => {
+    await expect(run(argv)).resolves.toBe(2);
+    expect(output(error)).toContain('Usage: rn-a11y-detector manifest');
+  });
+
+  it('reports unknown options', async () => {
+    await expect(run(['manifest', 'check', '--verbose'])).resolves.toBe(2);
+    expect(output(error)).toContain("Unknown option '--verbose'");
+    expect(output(error)).toContain('Usage: rn-a11y-detector manifest');
+  });
+
+  it('reports invalid custom packages without touching the manifest', async () => {
+    const before = fs.readFileSync(manifestPath, 'utf8');
+
+    await expect(
+      run(['manifest', 'fix', manifestPath, '--custom-package', 'support'])
+    ).resolves.toBe(2);
+    expect(output(error)).toContain('must have at least two segments');
+    expect(fs.readFileSync(manifestPath, 'utf8')).toBe(before);
+  });
+
+  it('explains how to install @expo/config-plugins when it is missing', async () => {
+    const notFound = Object.assign(new Error('Cannot find module'), {
+      code: 'MODULE_NOT_FOUND',
+    });
+    jest.doMock('@expo/config-plugins', () => {
+      throw notFound;
+    });
+
+    await expect(run(['manifest', 'check', manifestPath])).resolves.toBe(2);
+    expect(output(error)).toContain(
+      'npm install --save-dev @expo/config-plugins'
+    );
+    jest.dontMock('@expo/config-plugins');
+  });
+
+  it('prints the usage with --help', async () => {
+    await expect(run(['--help'])).resolves.toBe(0);
+    expect(output(log)).toContain('Usage: rn-a11y-detector manifest');
+  });
+});
@@ -0,0 +1,269 @@
+import type { AndroidManifest } from '@expo/config-plugins/build/android/Manifest';
+import { REMOTE_ACCESS_APP_PACKAGES } from '../../../src/RemoteAccessAppCatalog';
+import { addQueriesSchemes } from '../infoPlist';
+import {
+  applyManifestMods as applyPluginManifestMods,
+  CUSTOM_PACKAGES_METADATA_NAME,
+} from '../manifest';
+import {
+  type AccessibilityServicesDetectorPluginOptions,
+  validateOptions,
+} from '../options';
+import {
+  expoTemplateManifest,
+  multipleQueriesManifest,
+  noApplicationManifest,
+  previousPrebuildManifest,
+} from '../__fixtures__/manifests';
+
+const silent: AccessibilityServicesDetectorPluginOptions = {
+  logLevel: 'silent',
+};
+
+/**
+ * Runs the Android mods the way the plugin does, without logging
+ */
+function applyManifestMods(
+  manifest: AndroidManifest,
+  options: AccessibilityServicesDetectorPluginOptions
+): AndroidManifest {
+  return applyPluginManifestMods(manifest, {
+    ...silent,
+    ...options,
+  });
+}
+
+function getQueriedPackages(manifest: AndroidManifest): string[] {
+  return manifest.manifest.queries.flatMap((queries) =>
+    (queries.package ?? []).map((pkg) => pkg.$['android:name'])
+  );
+}
+
+function getMetaData(manifest: AndroidManifest, name: string) {
+  return (manifest.manifest.application?.[0]?.['meta-data'] ?? []).filter(
+    (metaData) => metaData.$['android:name'] === name
+  );
+}
+
+describe('addQueriesPackages', () => {
+  it('adds the catalog and custom packages to the Expo template', () => {
+    const manifest = applyManifestMods(expoTemplateManifest(), {
+      customPackages: ['com.example.support'],
+    });
+
+    expect(getQueriedPackages(manifest)).toEqual([
+      ...REMOTE_ACCESS_APP_PACKAGES,
+      'com.example.support',
+    ]);
+    // The template's browsable intent is kept
+    expect(manifest.manifest.queries[0]?.intent).toHaveLength(1);
+  });
+
+  it('does not repeat packages declared in any existing <queries> element', () => {
+    const manifest = applyManifestMods(multipleQueriesManifest(), {});
+    const packages = getQueriedPackages(manifest);
+
+    expect(manifest.manifest.queries).toHaveLength(2);
+    expect(
+      packages.filter((name) => name === 'com.anydesk.anydeskandroid')
+    ).toHaveLength(1);
+    expect(packages).toContain('com.whatsapp');
+    expect(new Set(packages).size).toBe(packages.length);
+  });
+
+  it('leaves out excluded catalog packages', () => {
+    const manifest = applyManifestMods(expoTemplateManifest(), {
+      excludeDefaultPackages: ['com.microsoft.intune'],
+    });
+    expect(getQueriedPackages(manifest)).not.toContain('com.microsoft.intune');
+
+    const withoutCatalog = applyManifestMods(expoTemplateManifest(), {
+      excludeDefaultPackages: true,
+      customPackages: ['com.example.support'],
+    });
+    expect(getQueriedPackages(withoutCatalog)).toEqual(['com.example.support']);
+  });
+
+  it('removes catalog packages excluded since a previous prebuild', () => {
+    const previous = applyManifestMods(expoTemplateManifest(), {});
+    const manifest = applyManifestMods(previous, {
+      excludeDefaultPackages: ['com.microsoft.intune'],
+    });
+
+    expect(getQueriedPackages(manifest)).toEqual(
+      REMOTE_ACCESS_APP_PACKAGES.filter(
+        (packageName) => packageName !== 'com.microsoft.intune'
+      )
+    );
+    expect(
+      getQueriedPackages(
+        applyManifestMods(manifest, { excludeDefaultPackages: true })
+      )
+    ).toEqual([]);
+  });
+
+  it('removes custom packages dropped since a previous prebuild', () => {
+    const manifest = applyManifestMods(previousPrebuildManifest(), {
+      excludeDefaultPackages: true,
+      customPackages: ['com.example.support'],
+    });
+
+    expect(getQueriedPackages(manifest)).toEqual(['com.example.support']);
+  });
+
+  it('keeps packages outside the catalog and previous custom packages', () => {
+    const manifest = applyManifestMods(multipleQueriesManifest(), {
+      excludeDefaultPackages: true,
+    });
+
+    expect(getQueriedPackages(manifest)).toEqual(['com.whatsapp']);
+  });
+});
+
+describe('addIntentQueries', () => {
+  it('skips intents already declared in any <queries> element', () => {
+    const manifest = applyManifestMods(multipleQueriesManifest(), {
+      intentQueries: [
+        { action: 'android.intent.action.VIEW', data: { scheme: 'vnc' } },
+        { action: 'android.intent.action.VIEW', data: { scheme: 'rdp' } },
+      ],
+    });
+
+    const intents = manifest.manifest.queries.flatMap(
+      (queries) => queries.intent ?? []
+    );
+    expect(intents.map((intent) => intent.data?.[0]?.$)).toEqual([
+      { 'android:scheme': 'vnc' },
+      { 'android:scheme': 'rdp' },
+    ]);
+  });
+});
+
+describe('addCustomPackagesMetadata', () => {
+  it('replaces the metadata of a previous prebuild', () => {
+    const manifest = applyManifestMods(previousPrebuildManifest(), {
+      customPackages: ['com.example.support', 'com.example.helpdesk'],
+    });
+
+    expect(getMetaData(manifest, CUSTOM_PACKAGES_METADATA_NAME)).toEqual([
+      {
+        $: {
+          'android:name': CUSTOM_PACKAGES_METADATA_NAME,
+          'android:value': 'com.example.support,com.example.helpdesk',
+        },
+      },
+    ]);
+    expect(getMetaData(manifest, 'expo.modules.updates.ENABLED')).toHaveLength(
+      1
+    );
+  });
+
+  it('removes stale metadata when there are no custom packages anymore', () => {
+    const manifest = applyManifestMods(previousPrebuildManifest(), {});
+
+    expect(getMetaData(manifest, CUSTOM_PACKAGES_METADATA_NAME)).toEqual([]);
+    expect(getMetaData(manifest, 'expo.modules.updates.ENABLED')).toHaveLength(
+      1
+    );
+  });
+
+  it('fails when custom packages cannot be injected', () => {
+    expect(() =>
+      applyManifestMods(noApplicationManifest(), {
+        customPackages: ['com.example.support'],
+      })
+    ).toThrow('has no <application> element');
+
+    expect(() => applyManifestMods(noApplicationManifest(), {})).not.toThrow();
+  });
+});
+
+describe('repeated prebuilds', () => {
+  it.each([
+    ['Expo template', expoTemplateManifest],
+    ['multiple queries', multipleQueriesManifest],
+    ['previous prebuild', previousPrebuildManifest],
+  ])('produce the same %s manifest', (_name, fixture) => {
+    const options: AccessibilityServicesDetectorPluginOptions = {
+      customPackages: ['com.example.support'],
+      intentQueries: [
+        { action: 'android.intent.action.VIEW', data: { scheme: 'rdp' } },
+      ],
+    };
+    const once = applyManifestMods(fixture(), options);
+    const twice = applyManifestMods(
+      applyManifestMods(fixture(), options),
+      options
+    );
+
+    expect(twice).toEqual(once);
+  });
+
+  it('add each iOS URL scheme once', () => {
+    const options = { ...silent, iosUrlSchemes: ['vnc', 'example-support'] };
+    const once = addQueriesSchemes({}, options);
+    const twice = addQueriesSchemes(addQueriesSchemes({}, options), options);
+
+    expect(twice).toEqual(once);
+    expect(once.LSApplicationQueriesSchemes).toEqual([
+      'anydesk',
+      'rdp',
+      'vnc',
+      'example-support',
+    ]);
+  });
+
+  it('leave out the iOS URL schemes of excluded catalog apps', () => {
+    expect(
+      addQueriesSchemes(
+        {},
+        {
+          ...silent,
+          excludeDefaultPackages: [
+            'com.anydesk.anydeskandroid',
+            'com.realvnc.viewer.android',
+          ],
+        }
+      ).LSApplicationQueriesSchemes
+    ).toEqual(['rdp']);
+    expect(
+      addQueriesSchemes(
+        {},
+        { ...silent, excludeDefaultPackages: true, iosUrlSchemes: ['vnc'] }
+      ).LSApplicationQueriesSchemes
+    ).toEqual(['vnc']);
+  });
+});
+
+describe('validateOptions', () => {
+  it.each([
+    [{ customPackages: [''] }, 'customPackages[0] must not be empty'],
+    [
+      { customPackages: ['support'] },
+      'customPackages[0] must have at least two segments',
+    ],
+    [
+      { customPackages: ['com.example.1support'] },
+      '"1support" is not a valid segment',
+    ],
+    [{ customPackages: ['com.example.new'] }, '"new" is not a valid segment'],
+    [
+      { customPackages: ['com.example.a', 'com.example.a'] },
+      'customPackages[1] duplicates customPackages[0]',
+    ],
+    [{ customPackage: [] }, 'customPackage is not a known option'],
+    [{ intentQueries: [{}] }, 'intentQueries[0].action must be'],
+    [{ iosUrlSchemes: ['vnc://'] }, 'iosUrlSchemes[0] must be a URL scheme'],
+  ])('rejects %j', (options, message) => {
+    expect(() => validateOptions(options)).toThrow(message);
+  });
+
+  it('accepts valid options', () => {
+    const options = {
+      customPackages: ['com.example.support', 'com.Example_2.app'],
+      excludeDefaultPackages: true,
+      logLevel: 'warn',
+    };
+    expect(validateOptions(options)).toBe(options);
+  });
+});
@@ -0,0 +1,125 @@
+import type { AndroidManifest } from '@expo/config-plugins/build/android/Manifest';
+import { applyManifestMods, getCustomPackagesMetadata } from './manifest';
+import type { AccessibilityServicesDetectorPluginOptions } from './options';
+
+/**
+ * Differences between a manifest and what the plugin would make of it
+ */
+export interface ManifestAuditResult {
+  /** Package queries the plugin would add */
+  missingPackages: string[];
+  /** Package queries the plugin would remove, as a previous run added them */
+  stalePackages: string[];
+  /** Number of `<intent>` queries the plugin would add */
+  missingIntentCount: number;
+  /** Custom packages meta-data value currently in the manifest */
+  currentMetadata: string | null;
+  /** Custom packages meta-data value the plugin would write */
+  expectedMetadata: string | null;
+  /** Whether the manifest already contains everything */
+  isUpToDate: boolean;
+}
+
+/**
+ * The parts of a `<queries>` element the audit looks at
+ */
+interface AuditedQueries {
+  package?: { $?: { 'android:name'?: string } }[];
+  intent?: unknown[];
+}
+
+/**
+ * Gets the `<queries>` elements of a manifest
+ *
+ * @param androidManifest The Android manifest object
+ * @returns The queries elements, empty if there are none
+ */
+function getQueriesElements(
+  androidManifest: AndroidManifest
+): AuditedQueries[] {
+  const manifest = androidManifest.manifest as
+    | { queries?: AuditedQueries[] }
+    | undefined;
+  return manifest?.queries ?? [];
+}
+
+/**
+ * Collects the package names declared in every `<queries>` element
+ *
+ * @param androidManifest The Android manifest object
+ * @returns Declared package names
+ */
+function getQueriedPackageNames(androidManifest: AndroidManifest): string[] {
+  const names: string[] = [];
+  getQueriesElements(androidManifest).forEach((element) => {
+    (element.package ?? []).forEach((pkg) => {
+      const name = pkg.$?.['android:name'];
+      if (name) {
+        names.push(name);
+      }
+    });
+  });
+  return names;
+}
+
+/**
+ * Counts the `<intent>` elements of every `<queries>` element
+ *
+ * @param androidManifest The Android manifest object
+ * @returns Number of intent queries
+ */
+function countIntentQueries(androidManifest: AndroidManifest): number {
+  return getQueriesElements(androidManifest).reduce(
+    (count, element) => count + (element.intent?.length ?? 0),
+    0
+  );
+}
+
+/**
+ * Compares a manifest with the result of running the plugin on it, without
+ * changing the manifest
+ *
+ * @param androidManifest The Android manifest object
+ * @param options Plugin options
+ * @returns What the plugin would add or change
+ * @throws Error if the plugin cannot be applied, e.g. custom packages without
+ * an application element
+ */
+export function auditManifest(
+  androidManifest: AndroidManifest,
+  options: AccessibilityServicesDetectorPluginOptions = {}
+): ManifestAuditResult {
+  const fixed = applyManifestMods(
+    JSON.parse(JSON.stringify(androidManifest)) as AndroidManifest,
+    { ...options, logLevel: 'silent' }
+  );
+
+  const existingPackages = new Set(getQueriedPackageNames(androidManifest));
+  const fixedPackages = new Set(getQueriedPackageNames(fixed));
+  const missingPackages = [...fixedPackages].filter(
+    (packageName) => !existingPackages.has(packageName)
+  );
+  const stalePackages = [...existingPackages].filter(
+    (packageName) => !fixedPackages.has(packageName)
+  );
+  const missingIntentCount =
+    countIntentQueries(fixed) - countIntentQueries(androidManifest);
+  const currentMetadata = getCustomPackagesMetadata(androidManifest);
+  const expectedMetadata =
+    options.injectMetadata === false
+      ? currentMetadata
+      : getCustomPackagesMetadata(fixed);
+
+  return {
+    missingPackages,
+    stalePackages,
+    missingIntentCount,
+    currentMetadata,
+    expectedMetadata,
+    isUpToDate:
+      missingPackages.length === 0 &&
+      stalePackages.length === 0 &&
+      missingIntentCount === 0 &&
+      currentMetadata === expectedMetadata,
+  };
+}
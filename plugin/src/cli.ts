@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { auditManifest, type ManifestAuditResult } from './audit';
+import { applyManifestMods } from './manifest';
+import {
+  type AccessibilityServicesDetectorPluginOptions,
+  validateOptions,
+} from './options';
+
+/**
+ * Manifest of the app module in a React Native project
+ */
+const DEFAULT_MANIFEST_PATH = 'android/app/src/main/AndroidManifest.xml';
+
+/**
+ * Exit codes: the manifest is up to date (or was fixed), entries are missing,
+ * or the command could not run
+ */
+const EXIT_OK = 0;
+const EXIT_OUTDATED = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: rn-a11y-detector manifest <check|fix> [path] [options]
+
+Audits the <queries> and meta-data entries react-native-accessibility-services-detector
+needs in AndroidManifest.xml (default: ${DEFAULT_MANIFEST_PATH}).
+
+Commands:
+  manifest check   Report missing entries, exit with ${EXIT_OUTDATED} if any
+  manifest fix     Add missing entries and rewrite the file in place
+
+Options:
+  --custom-package <name>     Extra package to query and detect (repeatable)
+  --exclude-default-packages  Leave out the remote access app catalog packages
+  --skip-metadata             Do not check or write the custom packages meta-data
+  -h, --help                  Show this help`;
+
+/**
+ * Describes the differences found by the audit, one line each
+ *
+ * @param result The audit result
+ * @returns Lines to print
+ */
+function describeAudit(result: ManifestAuditResult): string[] {
+  const lines = [
+    ...result.missingPackages.map(
+      (packageName) => `  missing <package android:name="${packageName}" />`
+    ),
+    ...result.stalePackages.map(
+      (packageName) => `  stale <package android:name="${packageName}" />`
+    ),
+  ];
+  if (result.missingIntentCount > 0) {
+    lines.push(`  missing ${result.missingIntentCount} <intent> queries`);
+  }
+  if (result.currentMetadata !== result.expectedMetadata) {
+    lines.push(
+      result.expectedMetadata === null
+        ? `  stale custom packages meta-data "${result.currentMetadata}"`
+        : `  custom packages meta-data is ${
+            result.currentMetadata === null
+              ? 'missing'
+              : `"${result.currentMetadata}"`
+          }, expected "${result.expectedMetadata}"`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Loads `@expo/config-plugins`, which reads and writes the manifest. It is an
+ * optional peer dependency, so projects without Expo may not have it.
+ */
+function loadConfigPlugins(): typeof import('@expo/config-plugins') {
+  try {
+    return require('@expo/config-plugins');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'MODULE_NOT_FOUND') {
+      throw error;
+    }
+    throw new Error(
+      'rn-a11y-detector needs @expo/config-plugins to read AndroidManifest.xml. ' +
+        'Install it with `npm install --save-dev @expo/config-plugins`.'
+    );
+  }
+}
+
+/**
+ * Runs the CLI
+ *
+ * @param argv Command line arguments, without the node and script paths
+ * @returns Process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'custom-package': { type: 'string', multiple: true },
+        'exclude-default-packages': { type: 'boolean' },
+        'skip-metadata': { type: 'boolean' },
+        'help': { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  const { values, positionals } = parsed;
+  const [group, command, manifestArg, ...rest] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (
+    group !== 'manifest' ||
+    (command !== 'check' && command !== 'fix') ||
+    rest.length > 0
+  ) {
+    console.error(USAGE);
+    return EXIT_ERROR;
+  }
+
+  const manifestPath = path.resolve(manifestArg ?? DEFAULT_MANIFEST_PATH);
+  try {
+    const { AndroidConfig } = loadConfigPlugins();
+    const options: AccessibilityServicesDetectorPluginOptions = validateOptions(
+      {
+        customPackages: values['custom-package'] ?? [],
+        excludeDefaultPackages: values['exclude-default-packages'] ?? false,
+        injectMetadata: !values['skip-metadata'],
+        logLevel: 'silent',
+      }
+    );
+    const androidManifest =
+      await AndroidConfig.Manifest.readAndroidManifestAsync(manifestPath);
+    const result = auditManifest(androidManifest, options);
+
+    if (result.isUpToDate) {
+      console.log(`${manifestPath} is up to date`);
+      return EXIT_OK;
+    }
+
+    if (command === 'check') {
+      console.log(`${manifestPath} is out of date:`);
+      describeAudit(result).forEach((line) => console.log(line));
+      console.log('Run `rn-a11y-detector manifest fix` to update it.');
+      return EXIT_OUTDATED;
+    }
+
+    await AndroidConfig.Manifest.writeAndroidManifestAsync(
+      manifestPath,
+      applyManifestMods(androidManifest, options)
+    );
+    console.log(`Fixed ${manifestPath}:`);
+    describeAudit(result).forEach((line) => console.log(line));
+    return EXIT_OK;
+  } catch (error) {
+    console.error((error as Error).message);
+    return EXIT_ERROR;
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(
+    (exitCode) => {
+      process.exitCode = exitCode;
+    },
+    (error) => {
+      console.error(error);
+      process.exitCode = EXIT_ERROR;
+    }
+  );
+}
@@ -0,0 +1,78 @@
+import type { InfoPlist } from '@expo/config-plugins';
+import { REMOTE_ACCESS_APP_CATALOG } from '../../src/RemoteAccessAppCatalog';
+import {
+  type AccessibilityServicesDetectorPluginOptions,
+  log,
+} from './options';
+
+/**
+ * iOS only lets an app query this many URL schemes with `canOpenURL`
+ */
+const MAX_IOS_QUERIES_SCHEMES = 50;
+
+/**
+ * Gets the URL schemes of the catalog apps that are not excluded
+ *
+ * @param excludeDefaultPackages `true` to exclude the whole catalog, or the package names to exclude
+ * @returns The URL schemes of the remaining catalog apps
+ */
+function getDefaultSchemes(
+  excludeDefaultPackages: boolean | readonly string[]
+): string[] {
+  if (excludeDefaultPackages === true) {
+    return [];
+  }
+  return REMOTE_ACCESS_APP_CATALOG.filter(
+    (entry) =>
+      excludeDefaultPackages === false ||
+      !excludeDefaultPackages.includes(entry.packageName)
+  ).reduce<string[]>(
+    (schemes, entry) => schemes.concat(entry.iosUrlSchemes ?? []),
+    []
+  );
+}
+
+/**
+ * Adds the URL schemes of remote access apps to `LSApplicationQueriesSchemes`
+ * so they can be probed with `Linking.canOpenURL` on iOS
+ *
+ * @param infoPlist The Info.plist object
+ * @param options Plugin options
+ * @returns Modified Info.plist with the schemes added
+ */
+export function addQueriesSchemes(
+  infoPlist: InfoPlist,
+  options: AccessibilityServicesDetectorPluginOptions = {}
+): InfoPlist {
+  const schemes = [
+    ...getDefaultSchemes(options.excludeDefaultPackages ?? false),
+    ...(options.iosUrlSchemes ?? []),
+  ];
+  if (schemes.length === 0) {
+    return infoPlist;
+  }
+
+  const existingSchemes = (infoPlist.LSApplicationQueriesSchemes ??
+    []) as string[];
+  const addedSchemes = schemes.filter(
+    (scheme, index) =>
+      !existingSchemes.includes(scheme) && schemes.indexOf(scheme) === index
+  );
+  const allSchemes = [...existingSchemes, ...addedSchemes];
+  infoPlist.LSApplicationQueriesSchemes = allSchemes;
+
+  log(
+    'info',
+    `Added ${addedSchemes.length} URL schemes to LSApplicationQueriesSchemes`,
+    options
+  );
+  if (allSchemes.length > MAX_IOS_QUERIES_SCHEMES) {
+    log(
+      'warn',
+      `LSApplicationQueriesSchemes has ${allSchemes.length} entries; iOS ignores canOpenURL checks beyond the first ${MAX_IOS_QUERIES_SCHEMES}`,
+      options
+    );
+  }
+
+  return infoPlist;
+}
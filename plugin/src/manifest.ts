@@ -0,0 +1,495 @@
+import type { AndroidManifest } from '@expo/config-plugins/build/android/Manifest';
+import { REMOTE_ACCESS_APP_PACKAGES } from '../../src/RemoteAccessAppCatalog';
+import {
+  type AccessibilityServicesDetectorPluginOptions,
+  type IntentQuery,
+  log,
+} from './options';
+
+/**
+ * Type definition for Android manifest package element
+ */
+interface ManifestPackage {
+  $: {
+    'android:name': string;
+  };
+}
+
+/**
+ * Type definition for Android manifest intent element
+ */
+interface ManifestIntent {
+  action: { $: { 'android:name': string } }[];
+  category?: { $: { 'android:name': string } }[];
+  data?: { $: Record<string, string> }[];
+}
+
+/**
+ * Type definition for Android manifest queries element
+ */
+interface ManifestQueries {
+  $?: Record<string, unknown>;
+  package?: ManifestPackage[];
+  intent?: ManifestIntent[];
+}
+
+/**
+ * Type definition for Android manifest meta-data element
+ */
+interface ManifestMetaData {
+  $: {
+    'android:name': string;
+    'android:value': string;
+  };
+}
+
+/**
+ * Type definition for Android manifest application element
+ */
+interface ManifestApplication {
+  '$'?: Record<string, unknown>;
+  'meta-data'?: ManifestMetaData[];
+  [key: string]: any;
+}
+
+/**
+ * Required package names for accessibility services detection, from the
+ * library's remote access app catalog
+ */
+const REQUIRED_PACKAGES = REMOTE_ACCESS_APP_PACKAGES;
+
+/**
+ * Name of the application meta-data entry read by the native module
+ */
+export const CUSTOM_PACKAGES_METADATA_NAME =
+  'com.accessibilityservicesdetector.CUSTOM_PACKAGES';
+
+/**
+ * Creates a new manifest package element
+ *
+ * @param packageName The package name to create element for
+ * @returns Manifest package element
+ */
+function createManifestPackage(packageName: string): ManifestPackage {
+  return {
+    $: {
+      'android:name': packageName,
+    },
+  };
+}
+
+/**
+ * Creates a new queries element
+ *
+ * @returns Empty queries element
+ */
+function createQueriesElement(): ManifestQueries {
+  return {
+    $: {},
+    package: [],
+  };
+}
+
+/**
+ * Gets the queries elements of a manifest, creating one if there is none
+ *
+ * @param androidManifest The Android manifest object
+ * @returns All queries elements, the first one receiving new entries
+ */
+function getQueriesElements(
+  androidManifest: AndroidManifest
+): ManifestQueries[] {
+  const manifest = androidManifest.manifest as {
+    queries?: ManifestQueries[];
+  };
+  if (!manifest.queries || manifest.queries.length === 0) {
+    manifest.queries = [createQueriesElement()];
+  }
+  return manifest.queries;
+}
+
+/**
+ * Extracts existing package names from every queries element, so packages
+ * declared in any of them are not added again
+ *
+ * @param queriesElements The queries elements to extract from
+ * @returns Set of existing package names
+ */
+function getExistingPackageNames(
+  queriesElements: ManifestQueries[]
+): Set<string> {
+  return new Set(
+    queriesElements
+      .reduce<ManifestPackage[]>(
+        (packages, queriesElement) =>
+          packages.concat(queriesElement.package ?? []),
+        []
+      )
+      .map((pkg: ManifestPackage) => pkg.$?.['android:name'])
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Gets all packages to be added (required + custom), without the excluded defaults
+ *
+ * @param options Plugin options
+ * @returns Array of unique package names to add
+ */
+function getAllRequiredPackages(
+  options: AccessibilityServicesDetectorPluginOptions
+): readonly string[] {
+  const customPackages = options.customPackages ?? [];
+  const { excludeDefaultPackages = false } = options;
+  const defaultPackages =
+    excludeDefaultPackages === true
+      ? []
+      : REQUIRED_PACKAGES.filter(
+          (packageName) =>
+            excludeDefaultPackages === false ||
+            !excludeDefaultPackages.includes(packageName)
+        );
+  return [...new Set([...defaultPackages, ...customPackages])];
+}
+
+/**
+ * Gets the packages a previous run of the plugin added that are not required
+ * anymore: excluded catalog packages, and the custom packages of the previous
+ * meta-data that are no longer in the options
+ *
+ * @param androidManifest The Android manifest object
+ * @param options Plugin options
+ * @returns Set of package names to remove
+ */
+function getStalePackageNames(
+  androidManifest: AndroidManifest,
+  options: AccessibilityServicesDetectorPluginOptions
+): Set<string> {
+  const requiredPackages = new Set(getAllRequiredPackages(options));
+  // The meta-data only records what the plugin added when it maintains it
+  const previousCustomPackages =
+    options.injectMetadata === false
+      ? []
+      : (getCustomPackagesMetadata(androidManifest)?.split(',') ?? []);
+  return new Set(
+    [...REQUIRED_PACKAGES, ...previousCustomPackages].filter(
+      (packageName) => !requiredPackages.has(packageName)
+    )
+  );
+}
+
+/**
+ * Removes stale packages from every queries element
+ *
+ * @param queriesElements The queries elements to remove from
+ * @param stalePackages Package names to remove
+ * @returns Number of packages removed
+ */
+function removeStalePackages(
+  queriesElements: ManifestQueries[],
+  stalePackages: Set<string>
+): number {
+  let removedCount = 0;
+  queriesElements.forEach((queriesElement) => {
+    const packages = queriesElement.package ?? [];
+    const keptPackages = packages.filter(
+      (pkg) => !stalePackages.has(pkg.$?.['android:name'])
+    );
+    removedCount += packages.length - keptPackages.length;
+    queriesElement.package = keptPackages;
+  });
+  return removedCount;
+}
+
+/**
+ * Logs the operation result
+ *
+ * @param addedCount Number of packages added
+ * @param removedCount Number of stale packages removed
+ * @param options Plugin options
+ */
+function logOperationResult(
+  addedCount: number,
+  removedCount: number,
+  options: AccessibilityServicesDetectorPluginOptions
+): void {
+  const message =
+    addedCount > 0
+      ? `Added ${addedCount} package queries to AndroidManifest.xml`
+      : 'All required package queries already present';
+
+  log('info', message, options);
+  if (removedCount > 0) {
+    log(
+      'info',
+      `Removed ${removedCount} stale package queries from AndroidManifest.xml`,
+      options
+    );
+  }
+}
+
+/**
+ * Adds required package queries to Android manifest
+ *
+ * Packages already declared in any `<queries>` element are skipped, so
+ * running the plugin again on its own output changes nothing. Packages a
+ * previous run added that are now excluded or no longer custom are removed,
+ * like the custom packages meta-data.
+ *
+ * @param androidManifest The Android manifest object
+ * @param options Plugin options
+ * @returns Modified manifest with queries added
+ */
+export function addQueriesPackages(
+  androidManifest: AndroidManifest,
+  options: AccessibilityServicesDetectorPluginOptions = {}
+): AndroidManifest {
+  if (!androidManifest.manifest) {
+    return androidManifest;
+  }
+
+  const queriesElements = getQueriesElements(androidManifest);
+  const queriesElement = queriesElements[0] as ManifestQueries;
+  const removedCount = removeStalePackages(
+    queriesElements,
+    getStalePackageNames(androidManifest, options)
+  );
+  const existingPackages = getExistingPackageNames(queriesElements);
+
+  // Ensure package array exists
+  if (!queriesElement.package) {
+    queriesElement.package = [];
+  }
+  const packages = queriesElement.package;
+
+  let addedCount = 0;
+  getAllRequiredPackages(options).forEach((packageName) => {
+    if (!existingPackages.has(packageName)) {
+      packages.push(createManifestPackage(packageName));
+      addedCount++;
+    }
+  });
+
+  logOperationResult(addedCount, removedCount, options);
+
+  return androidManifest;
+}
+
+/**
+ * Creates a new manifest intent element
+ *
+ * @param query The intent query to create element for
+ * @returns Manifest intent element
+ */
+function createManifestIntent(query: IntentQuery): ManifestIntent {
+  const intent: ManifestIntent = {
+    action: [{ $: { 'android:name': query.action } }],
+  };
+  if (query.category) {
+    intent.category = [{ $: { 'android:name': query.category } }];
+  }
+  if (query.data) {
+    const data: Record<string, string> = {};
+    Object.entries(query.data).forEach(([key, value]) => {
+      if (value) {
+        data[`android:${key}`] = value;
+      }
+    });
+    intent.data = [{ $: data }];
+  }
+  return intent;
+}
+
+/**
+ * Builds a key identifying an intent element regardless of attribute order
+ *
+ * @param intent The intent element
+ * @returns Key equal for equivalent intents
+ */
+function getIntentKey(intent: ManifestIntent): string {
+  const names = (elements?: { $: Record<string, string> }[]) =>
+    (elements ?? [])
+      .map((element) =>
+        Object.entries(element.$ ?? {})
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([key, value]) => `${key}=${value}`)
+          .join(',')
+      )
+      .sort()
+      .join(';');
+  return [
+    names(intent.action),
+    names(intent.category),
+    names(intent.data),
+  ].join('|');
+}
+
+/**
+ * Adds intent queries to Android manifest, skipping equivalent intents
+ * declared in any `<queries>` element
+ *
+ * @param androidManifest The Android manifest object
+ * @param options Plugin options
+ * @returns Modified manifest with intent queries added
+ */
+export function addIntentQueries(
+  androidManifest: AndroidManifest,
+  options: AccessibilityServicesDetectorPluginOptions = {}
+): AndroidManifest {
+  const intentQueries = options.intentQueries ?? [];
+  if (intentQueries.length === 0 || !androidManifest.manifest) {
+    return androidManifest;
+  }
+
+  const queriesElements = getQueriesElements(androidManifest);
+  const queriesElement = queriesElements[0] as ManifestQueries;
+  if (!queriesElement.intent) {
+    queriesElement.intent = [];
+  }
+  const intents = queriesElement.intent;
+  const existingIntents = new Set(
+    queriesElements
+      .reduce<
+        ManifestIntent[]
+      >((allIntents, element) => allIntents.concat(element.intent ?? []), [])
+      .map((intent) => getIntentKey(intent))
+  );
+
+  let addedCount = 0;
+  intentQueries.forEach((query) => {
+    const intent = createManifestIntent(query);
+    const key = getIntentKey(intent);
+    if (!existingIntents.has(key)) {
+      intents.push(intent);
+      existingIntents.add(key);
+      addedCount++;
+    }
+  });
+
+  log(
+    'info',
+    `Added ${addedCount} intent queries to AndroidManifest.xml`,
+    options
+  );
+
+  return androidManifest;
+}
+
+/**
+ * Creates a new manifest meta-data element
+ *
+ * @param name The metadata name
+ * @param value The metadata value
+ * @returns Manifest meta-data element
+ */
+function createManifestMetaData(name: string, value: string): ManifestMetaData {
+  return {
+    $: {
+      'android:name': name,
+      'android:value': value,
+    },
+  };
+}
+
+/**
+ * Reads the custom packages meta-data value of the application element
+ *
+ * @param androidManifest The Android manifest object
+ * @returns Comma-separated custom packages, or null if there is no entry
+ */
+export function getCustomPackagesMetadata(
+  androidManifest: AndroidManifest
+): string | null {
+  const applicationElement = androidManifest.manifest?.application?.[0] as
+    | ManifestApplication
+    | undefined;
+  const metaData = (applicationElement?.['meta-data'] ?? []).find(
+    (entry) => entry.$?.['android:name'] === CUSTOM_PACKAGES_METADATA_NAME
+  );
+  return metaData?.$['android:value'] ?? null;
+}
+
+/**
+ * Adds custom packages as metadata to Android manifest application element
+ * This allows the Kotlin module to read custom packages at runtime
+ *
+ * Any previous entry is replaced, and removed when there are no custom
+ * packages anymore, so repeated prebuilds never leave stale packages behind.
+ *
+ * @param androidManifest The Android manifest object
+ * @param options Plugin options
+ * @returns Modified manifest with metadata added
+ * @throws Error if there are custom packages but no application element
+ */
+export function addCustomPackagesMetadata(
+  androidManifest: AndroidManifest,
+  options: AccessibilityServicesDetectorPluginOptions = {}
+): AndroidManifest {
+  const customPackages = options.customPackages ?? [];
+  const applicationElement = androidManifest.manifest?.application?.[0] as
+    | ManifestApplication
+    | undefined;
+
+  if (!applicationElement) {
+    if (customPackages.length === 0) {
+      return androidManifest;
+    }
+    throw new Error(
+      '[AccessibilityServicesDetector] AndroidManifest.xml has no <application> element, so custom packages cannot be injected as meta-data. Set `injectMetadata: false` to skip the injection.'
+    );
+  }
+
+  // Remove existing metadata if present
+  const metaDataArray = (applicationElement['meta-data'] ?? []).filter(
+    (metaData) => metaData.$?.['android:name'] !== CUSTOM_PACKAGES_METADATA_NAME
+  );
+
+  if (customPackages.length === 0) {
+    if (metaDataArray.length !== applicationElement['meta-data']?.length) {
+      log('info', 'Removed stale custom packages metadata', options);
+    }
+  } else {
+    // Add new metadata with custom packages as comma-separated string
+    const customPackagesString = customPackages.join(',');
+    metaDataArray.push(
+      createManifestMetaData(
+        CUSTOM_PACKAGES_METADATA_NAME,
+        customPackagesString
+      )
+    );
+
+    log(
+      'info',
+      `Injected ${customPackages.length} custom packages as metadata: ${customPackagesString}`,
+      options
+    );
+  }
+
+  if (metaDataArray.length > 0) {
+    applicationElement['meta-data'] = metaDataArray;
+  } else {
+    delete applicationElement['meta-data'];
+  }
+
+  return androidManifest;
+}
+
+/**
+ * Applies every AndroidManifest.xml change of the plugin, in the order the
+ * plugin runs them
+ *
+ * @param androidManifest The Android manifest object
+ * @param options Plugin options
+ * @returns Modified manifest
+ */
+export function applyManifestMods(
+  androidManifest: AndroidManifest,
+  options: AccessibilityServicesDetectorPluginOptions = {}
+): AndroidManifest {
+  let manifest = addQueriesPackages(androidManifest, options);
+  manifest = addIntentQueries(manifest, options);
+  if (options.injectMetadata !== false) {
+    manifest = addCustomPackagesMetadata(manifest, options);
+  }
+  return manifest;
+}
@@ -0,0 +1,299 @@
+import {
+  isLogLevelEnabled,
+  LOG_LEVELS,
+  type Logger,
+  type LogLevel,
+} from '../../src/logger';
+import { getPackageNameError } from '../../src/packageNames';
+
+/**
+ * An `<intent>` entry of the manifest `<queries>` element
+ */
+export interface IntentQuery {
+  /** Intent action, e.g. `android.intent.action.VIEW` */
+  action: string;
+  /** Intent category, e.g. `android.intent.category.BROWSABLE` */
+  category?: string;
+  data?: {
+    scheme?: string;
+    host?: string;
+    mimeType?: string;
+  };
+}
+
+/**
+ * Plugin options interface
+ */
+export interface AccessibilityServicesDetectorPluginOptions {
+  /**
+   * Custom package names to include in queries
+   */
+  customPackages?: readonly string[];
+  /**
+   * Leave out the packages of the remote access app catalog: `true` for all
+   * of them, or a list of package names
+   * @default false
+   */
+  excludeDefaultPackages?: boolean | readonly string[];
+  /**
+   * Write custom packages to the application meta-data so the native module
+   * also detects them
+   * @default true
+   */
+  injectMetadata?: boolean;
+  /**
+   * `<intent>` entries to add to the manifest `<queries>` element
+   */
+  intentQueries?: readonly IntentQuery[];
+  /**
+   * URL schemes to add to `LSApplicationQueriesSchemes` on iOS, in addition
+   * to the schemes of the remote access app catalog
+   */
+  iosUrlSchemes?: readonly string[];
+  /**
+   * Whether to log the operations
+   * @deprecated Use `logLevel: 'silent'` instead
+   */
+  enableLogging?: boolean;
+  /**
+   * Minimum level of messages to log
+   * @default 'info'
+   */
+  logLevel?: LogLevel;
+  /**
+   * Where log messages are written (only available from app.config.js)
+   * @default console
+   */
+  logger?: Logger;
+}
+
+const OPTION_KEYS: readonly string[] = [
+  'customPackages',
+  'excludeDefaultPackages',
+  'injectMetadata',
+  'intentQueries',
+  'iosUrlSchemes',
+  'enableLogging',
+  'logLevel',
+  'logger',
+];
+
+const URL_SCHEME_PATTERN = /^[A-Za-z][A-Za-z0-9+.-]*$/;
+
+/**
+ * Writes a message through the configured logger if it passes the configured log level
+ *
+ * @param level Level of the message
+ * @param message The message to log
+ * @param options Plugin options
+ */
+export function log(
+  level: Exclude<LogLevel, 'silent'>,
+  message: string,
+  options: AccessibilityServicesDetectorPluginOptions
+): void {
+  const logLevel =
+    options.logLevel ?? (options.enableLogging === false ? 'silent' : 'info');
+  if (!isLogLevelEnabled(level, logLevel)) return;
+
+  const logger = options.logger ?? console;
+  logger[level](`[AccessibilityServicesDetector] ${message}`);
+}
+
+/**
+ * Creates the error thrown for invalid plugin options, which fails the prebuild
+ *
+ * @param path Path of the invalid option
+ * @param message What is wrong with it
+ * @returns Error to throw
+ */
+function invalidOption(path: string, message: string): Error {
+  return new Error(
+    `[AccessibilityServicesDetector] Invalid plugin option: ${path} ${message}`
+  );
+}
+
+/**
+ * Checks that a value is a list of unique, valid package names
+ *
+ * @param value The value to check
+ * @param path Path of the option, for error messages
+ */
+function validatePackageNames(value: unknown, path: string): void {
+  if (!Array.isArray(value)) {
+    throw invalidOption(path, 'must be an array');
+  }
+  value.forEach((item: unknown, index) => {
+    if (typeof item !== 'string') {
+      throw invalidOption(`${path}[${index}]`, 'must be a string');
+    }
+    const error = getPackageNameError(item);
+    if (error) {
+      throw invalidOption(`${path}[${index}]`, error);
+    }
+    const firstIndex = value.indexOf(item);
+    if (firstIndex !== index) {
+      throw invalidOption(
+        `${path}[${index}]`,
+        `duplicates ${path}[${firstIndex}] ("${item}")`
+      );
+    }
+  });
+}
+
+/**
+ * Checks that a value is an array of strings matching a pattern
+ *
+ * @param value The value to check
+ * @param path Path of the option, for error messages
+ * @param pattern Pattern every string must match
+ * @param description What the strings must be, for error messages
+ */
+function validateStringArray(
+  value: unknown,
+  path: string,
+  pattern: RegExp,
+  description: string
+): void {
+  if (!Array.isArray(value)) {
+    throw invalidOption(path, 'must be an array');
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string' || !pattern.test(item)) {
+      throw invalidOption(
+        `${path}[${index}]`,
+        `must be ${description}, got ${JSON.stringify(item)}`
+      );
+    }
+  });
+}
+
+/**
+ * Checks an intent query
+ *
+ * @param value The value to check
+ * @param path Path of the option, for error messages
+ */
+function validateIntentQuery(value: unknown, path: string): void {
+  if (typeof value !== 'object' || value === null) {
+    throw invalidOption(path, 'must be an object');
+  }
+  const { action, category, data } = value as Record<string, unknown>;
+  if (typeof action !== 'string' || action.length === 0) {
+    throw invalidOption(`${path}.action`, 'must be a non-empty string');
+  }
+  if (category !== undefined && typeof category !== 'string') {
+    throw invalidOption(`${path}.category`, 'must be a string');
+  }
+  if (data === undefined) {
+    return;
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw invalidOption(`${path}.data`, 'must be an object');
+  }
+  Object.entries(data).forEach(([key, dataValue]) => {
+    if (!['scheme', 'host', 'mimeType'].includes(key)) {
+      throw invalidOption(
+        `${path}.data.${key}`,
+        'is not supported, use scheme, host or mimeType'
+      );
+    }
+    if (typeof dataValue !== 'string') {
+      throw invalidOption(`${path}.data.${key}`, 'must be a string');
+    }
+  });
+}
+
+/**
+ * Validates the plugin options so mistakes fail the prebuild instead of
+ * silently producing an incomplete manifest
+ *
+ * @param options Options passed to the plugin
+ * @returns The validated options
+ * @throws Error describing the first invalid option
+ */
+export function validateOptions(
+  options: unknown
+): AccessibilityServicesDetectorPluginOptions {
+  if (
+    typeof options !== 'object' ||
+    options === null ||
+    Array.isArray(options)
+  ) {
+    throw invalidOption('options', 'must be an object');
+  }
+
+  const record = options as Record<string, unknown>;
+  Object.keys(record).forEach((key) => {
+    if (!OPTION_KEYS.includes(key)) {
+      throw invalidOption(
+        key,
+        `is not a known option (expected one of ${OPTION_KEYS.join(', ')})`
+      );
+    }
+  });
+
+  if (record.customPackages !== undefined) {
+    validatePackageNames(record.customPackages, 'customPackages');
+  }
+  if (
+    record.excludeDefaultPackages !== undefined &&
+    typeof record.excludeDefaultPackages !== 'boolean'
+  ) {
+    validatePackageNames(
+      record.excludeDefaultPackages,
+      'excludeDefaultPackages'
+    );
+  }
+  if (
+    record.injectMetadata !== undefined &&
+    typeof record.injectMetadata !== 'boolean'
+  ) {
+    throw invalidOption('injectMetadata', 'must be a boolean');
+  }
+  if (record.intentQueries !== undefined) {
+    if (!Array.isArray(record.intentQueries)) {
+      throw invalidOption('intentQueries', 'must be an array');
+    }
+    record.intentQueries.forEach((query, index) =>
+      validateIntentQuery(query, `intentQueries[${index}]`)
+    );
+  }
+  if (record.iosUrlSchemes !== undefined) {
+    validateStringArray(
+      record.iosUrlSchemes,
+      'iosUrlSchemes',
+      URL_SCHEME_PATTERN,
+      'a URL scheme without "://"'
+    );
+  }
+  if (
+    record.enableLogging !== undefined &&
+    typeof record.enableLogging !== 'boolean'
+  ) {
+    throw invalidOption('enableLogging', 'must be a boolean');
+  }
+  if (
+    record.logLevel !== undefined &&
+    !LOG_LEVELS.includes(record.logLevel as LogLevel)
+  ) {
+    throw invalidOption('logLevel', `must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  if (record.logger !== undefined) {
+    const logger = record.logger as Record<string, unknown> | null;
+    const isLogger =
+      typeof logger === 'object' &&
+      logger !== null &&
+      ['debug', 'info', 'warn', 'error'].every(
+        (level) => typeof logger[level] === 'function'
+      );
+    if (!isLogger) {
+      throw invalidOption(
+        'logger',
+        'must implement debug, info, warn and error'
+      );
+    }
+  }
+
+  return record as AccessibilityServicesDetectorPluginOptions;
+}
@@ -0,0 +1,193 @@
+/**
+ * Stable error codes, safe to group error reports by
+ */
+export type AccessibilityDetectorErrorCode =
+  /** The native module is not linked into the app */
+  | 'E_NOT_LINKED'
+  /** The method is not available on the current platform */
+  | 'E_UNSUPPORTED_PLATFORM'
+  /** Listening for accessibility services changes could not be started */
+  | 'E_START_LISTENING_FAILED'
+  /** Listening for accessibility services changes could not be stopped */
+  | 'E_STOP_LISTENING_FAILED'
+  /** Enabled accessibility services could not be read */
+  | 'E_SERVICE_QUERY_FAILED'
+  /** Installed packages could not be queried */
+  | 'E_PACKAGE_QUERY_FAILED'
+  /** The platform denied access to the requested information */
+  | 'E_VISIBILITY_RESTRICTED'
+  /** An option or argument passed to the library is invalid */
+  | 'E_INVALID_ARGUMENT'
+  /** Any other failure */
+  | 'E_UNKNOWN';
+
+/**
+ * Base class of every error thrown or rejected by this library
+ *
+ * @example
+ * try {
+ *   await getInstalledRemoteAccessApps();
+ * } catch (error) {
+ *   if (error instanceof AccessibilityDetectorError) {
+ *     report(error.code, error);
+ *   }
+ * }
+ */
+export class AccessibilityDetectorError extends Error {
+  /** Stable error code */
+  public readonly code: AccessibilityDetectorErrorCode;
+  /** Error code reported by the native module, if the error came from native code */
+  public readonly nativeCode?: string;
+  /** The underlying error, if any */
+  public readonly cause?: unknown;
+
+  constructor(
+    code: AccessibilityDetectorErrorCode,
+    message: string,
+    options: { cause?: unknown; nativeCode?: string } = {}
+  ) {
+    super(message);
+    this.name = 'AccessibilityDetectorError';
+    this.code = code;
+    this.cause = options.cause;
+    this.nativeCode = options.nativeCode;
+    // Keep `instanceof` working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class ModuleNotLinkedError extends AccessibilityDetectorError {
+  constructor(message: string) {
+    super('E_NOT_LINKED', message);
+    this.name = 'ModuleNotLinkedError';
+  }
+}
+
+export class UnsupportedPlatformError extends AccessibilityDetectorError {
+  /** The platform the method was called on */
+  public readonly platform: string;
+
+  constructor(platform: string, method: string) {
+    super(
+      'E_UNSUPPORTED_PLATFORM',
+      `${method} is not implemented on ${platform}`
+    );
+    this.name = 'UnsupportedPlatformError';
+    this.platform = platform;
+  }
+}
+
+export class ListenerError extends AccessibilityDetectorError {
+  constructor(
+    code: 'E_START_LISTENING_FAILED' | 'E_STOP_LISTENING_FAILED',
+    message: string,
+    options: { cause?: unknown; nativeCode?: string } = {}
+  ) {
+    super(code, message, options);
+    this.name = 'ListenerError';
+  }
+}
+
+export class QueryError extends AccessibilityDetectorError {
+  constructor(
+    code: 'E_SERVICE_QUERY_FAILED' | 'E_PACKAGE_QUERY_FAILED',
+    message: string,
+    options: { cause?: unknown; nativeCode?: string } = {}
+  ) {
+    super(code, message, options);
+    this.name = 'QueryError';
+  }
+}
+
+export class VisibilityRestrictedError extends AccessibilityDetectorError {
+  constructor(
+    message: string,
+    options: { cause?: unknown; nativeCode?: string } = {}
+  ) {
+    super('E_VISIBILITY_RESTRICTED', message, options);
+    this.name = 'VisibilityRestrictedError';
+  }
+}
+
+export class InvalidArgumentError extends AccessibilityDetectorError {
+  constructor(message: string) {
+    super('E_INVALID_ARGUMENT', message);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+function getNativeCode(error: unknown): string | undefined {
+  if (typeof error === 'object' && error !== null && 'code' in error) {
+    const { code } = error as { code: unknown };
+    return typeof code === 'string' ? code : undefined;
+  }
+  return undefined;
+}
+
+function getMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * Convert any error, typically a native promise rejection, into an `AccessibilityDetectorError`
+ * @param error - The error to convert; returned as is if it already is an `AccessibilityDetectorError`
+ * @param fallbackCode - Code to use when the native error code is not recognized
+ */
+export function toAccessibilityDetectorError(
+  error: unknown,
+  fallbackCode: AccessibilityDetectorErrorCode = 'E_UNKNOWN'
+): AccessibilityDetectorError {
+  if (error instanceof AccessibilityDetectorError) {
+    return error;
+  }
+
+  const nativeCode = getNativeCode(error);
+  const options = { cause: error, nativeCode };
+
+  switch (nativeCode) {
+    case 'START_LISTENING_ERROR':
+      return new ListenerError(
+        'E_START_LISTENING_FAILED',
+        getMessage(error, 'Failed to start listening'),
+        options
+      );
+    case 'STOP_LISTENING_ERROR':
+      return new ListenerError(
+        'E_STOP_LISTENING_FAILED',
+        getMessage(error, 'Failed to stop listening'),
+        options
+      );
+    case 'GET_SERVICES_ERROR':
+    case 'HAS_SERVICES_ERROR':
+      return new QueryError(
+        'E_SERVICE_QUERY_FAILED',
+        getMessage(error, 'Failed to query accessibility services'),
+        options
+      );
+    case 'GET_INSTALLED_APPS_ERROR':
+      return new QueryError(
+        'E_PACKAGE_QUERY_FAILED',
+        getMessage(error, 'Failed to query installed packages'),
+        options
+      );
+    case 'VISIBILITY_RESTRICTED':
+      return new VisibilityRestrictedError(
+        getMessage(error, 'Package visibility is restricted'),
+        options
+      );
+  }
+
+  const message = getMessage(error, String(error));
+  switch (fallbackCode) {
+    case 'E_START_LISTENING_FAILED':
+    case 'E_STOP_LISTENING_FAILED':
+      return new ListenerError(fallbackCode, message, options);
+    case 'E_SERVICE_QUERY_FAILED':
+    case 'E_PACKAGE_QUERY_FAILED':
+      return new QueryError(fallbackCode, message, options);
+    case 'E_VISIBILITY_RESTRICTED':
+      return new VisibilityRestrictedError(message, options);
+    default:
+      return new AccessibilityDetectorError(fallbackCode, message, options);
+  }
+}
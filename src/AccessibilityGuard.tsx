@@ -0,0 +1,249 @@
+import { type ReactNode, useEffect, useMemo, useRef } from 'react';
+import { Button, StyleSheet, Text, View } from 'react-native';
+import { UnsupportedPlatformError } from './AccessibilityDetectorError';
+import {
+  type AccessibilityPolicy,
+  createPolicy,
+  evaluatePolicy,
+  type PolicyDefinition,
+  type PolicyEvaluationResult,
+} from './AccessibilityPolicy';
+import AccessibilityServicesDetector from './AccessibilityServicesDetector';
+import { useEnabledAccessibilityServices, useRemoteAccessApps } from './hooks';
+
+export interface AccessibilityGuardFallbackProps {
+  /** Evaluation of the current state, or null if it could not be read */
+  result: PolicyEvaluationResult | null;
+  /** Why the state could not be read or the policy is invalid, if either failed */
+  error: unknown;
+  /** Open the system accessibility settings so the user can disable a service */
+  openAccessibilitySettings: () => void;
+  /** Read the enabled services and remote access apps again */
+  retry: () => Promise<void>;
+}
+
+export interface AccessibilityGuardProps {
+  /**
+   * Policy the device must satisfy, created with `createPolicy()` or as a
+   * definition. It is validated again only when its content changes; an
+   * invalid policy renders the fallback with the validation error.
+   */
+  policy: AccessibilityPolicy | PolicyDefinition;
+  /** Content rendered while the device satisfies the policy */
+  children?: ReactNode;
+  /**
+   * Rendered instead of the children when the policy is violated or the
+   * state cannot be read; defaults to a blocking view with a button to the
+   * accessibility settings
+   */
+  fallback?:
+    | ReactNode
+    | ((props: AccessibilityGuardFallbackProps) => ReactNode);
+  /**
+   * Rendered until the state has been read for the first time
+   * @default null
+   */
+  loadingFallback?: ReactNode;
+  /** Title of the default blocking view */
+  title?: string;
+  /** Message of the default blocking view */
+  message?: string;
+  /** Title of the default blocking view's settings button */
+  settingsButtonTitle?: string;
+  /** Called with every new evaluation, e.g. to report violations */
+  onEvaluate?: (result: PolicyEvaluationResult) => void;
+}
+
+const DEFAULT_TITLE = 'This screen is unavailable';
+const DEFAULT_MESSAGE =
+  'For your security, turn off the following apps and services before continuing:';
+const DEFAULT_SETTINGS_BUTTON_TITLE = 'Open accessibility settings';
+
+interface DefaultBlockingViewProps extends AccessibilityGuardFallbackProps {
+  title: string;
+  message: string;
+  settingsButtonTitle: string;
+}
+
+function DefaultBlockingView({
+  result,
+  openAccessibilitySettings,
+  title,
+  message,
+  settingsButtonTitle,
+}: DefaultBlockingViewProps) {
+  // Labels are not unique, e.g. two services of the same app
+  const offenders = result
+    ? [
+        ...result.violations.map(({ service }) => ({
+          key: service.id,
+          label: service.label,
+        })),
+        ...result.remoteAccessAppViolations.map(({ app }) => ({
+          key: app.packageName,
+          label: app.appName || app.packageName,
+        })),
+      ]
+    : [];
+
+  return (
+    <View style={styles.container} accessibilityRole="alert">
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.message}>{message}</Text>
+      {offenders.map(({ key, label }) => (
+        <Text key={key} style={styles.offender}>
+          {`• ${label}`}
+        </Text>
+      ))}
+      <View style={styles.button}>
+        <Button
+          title={settingsButtonTitle}
+          onPress={openAccessibilitySettings}
+        />
+      </View>
+    </View>
+  );
+}
+
+/**
+ * An unsupported platform has nothing to detect, e.g. remote access apps on
+ * iOS in strict mode, so it does not fail the guard
+ */
+function ignoreUnsupportedPlatform(error: unknown): unknown {
+  return error instanceof UnsupportedPlatformError ? null : error;
+}
+
+/**
+ * Validate a policy once per content, so inline definitions are not
+ * recompiled on every render
+ */
+function useValidatedPolicy(policy: AccessibilityPolicy | PolicyDefinition): {
+  policy: AccessibilityPolicy | null;
+  error: unknown;
+} {
+  // Policies are plain JSON data, so equal content gives an equal key
+  const policyKey = JSON.stringify(policy);
+  return useMemo(() => {
+    try {
+      return { policy: createPolicy(policyKey), error: null };
+    } catch (error) {
+      return { policy: null, error };
+    }
+  }, [policyKey]);
+}
+
+/**
+ * Render children only while the enabled accessibility services and
+ * installed remote access apps satisfy a policy, e.g. on payment or OTP screens
+ *
+ * The guard re-evaluates live through `addAccessibilityServicesListener`, and
+ * re-reads remote access apps when the app returns to the foreground. It
+ * fails closed: if the state cannot be read or the policy is invalid, the
+ * fallback is rendered.
+ *
+ * @example
+ * const paymentPolicy = createPolicy({
+ *   allow: [{ packageName: 'com.google.android.marvin.talkback' }],
+ *   deny: [{ isSystemApp: false }],
+ *   remoteAccessApps: { deny: [{ riskTiers: ['high'] }] },
+ * });
+ *
+ * <AccessibilityGuard policy={paymentPolicy}>
+ *   <PaymentForm />
+ * </AccessibilityGuard>
+ */
+export function AccessibilityGuard({
+  policy,
+  children = null,
+  fallback,
+  loadingFallback = null,
+  title = DEFAULT_TITLE,
+  message = DEFAULT_MESSAGE,
+  settingsButtonTitle = DEFAULT_SETTINGS_BUTTON_TITLE,
+  onEvaluate,
+}: AccessibilityGuardProps) {
+  const services = useEnabledAccessibilityServices();
+  const remoteAccessApps = useRemoteAccessApps();
+  const { policy: validatedPolicy, error: policyError } =
+    useValidatedPolicy(policy);
+  // Keep showing the last evaluation while a refresh is in flight
+  const lastResult = useRef<PolicyEvaluationResult | null>(null);
+
+  const loading = services.loading || remoteAccessApps.loading;
+  const error =
+    policyError ??
+    ignoreUnsupportedPlatform(services.error) ??
+    ignoreUnsupportedPlatform(remoteAccessApps.error);
+  const result = useMemo(
+    () =>
+      loading || error || !validatedPolicy
+        ? null
+        : evaluatePolicy(services.data, validatedPolicy, remoteAccessApps.data),
+    [loading, error, services.data, remoteAccessApps.data, validatedPolicy]
+  );
+  if (result) {
+    lastResult.current = result;
+  }
+
+  useEffect(() => {
+    if (result) {
+      onEvaluate?.(result);
+    }
+  }, [result, onEvaluate]);
+
+  const currentResult = error ? null : (result ?? lastResult.current);
+  if (!currentResult && !error) {
+    return <>{loadingFallback}</>;
+  }
+  if (currentResult?.compliant) {
+    return <>{children}</>;
+  }
+
+  const fallbackProps: AccessibilityGuardFallbackProps = {
+    result: currentResult,
+    error,
+    openAccessibilitySettings: () =>
+      AccessibilityServicesDetector.openAccessibilitySettings(),
+    retry: async () => {
+      await Promise.all([services.refresh(), remoteAccessApps.refresh()]);
+    },
+  };
+  if (typeof fallback === 'function') {
+    return <>{fallback(fallbackProps)}</>;
+  }
+  if (fallback !== undefined) {
+    return <>{fallback}</>;
+  }
+  return (
+    <DefaultBlockingView
+      {...fallbackProps}
+      title={title}
+      message={message}
+      settingsButtonTitle={settingsButtonTitle}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  offender: {
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  button: {
+    marginTop: 24,
+  },
+});
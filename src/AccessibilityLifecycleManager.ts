@@ -0,0 +1,221 @@
+import {
+  AppState,
+  type AppStateStatus,
+  type NativeEventSubscription,
+} from 'react-native';
+import type {
+  AccessibilityServiceInfo,
+  RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import {
+  type AccessibilityServicesDiff,
+  diffAccessibilityServices,
+  diffSnapshots,
+  hasSnapshotChanges,
+  type SnapshotDiff,
+} from './AccessibilityServicesDiff';
+import { log } from './configuration';
+
+/**
+ * The detector methods the lifecycle manager re-runs on resume
+ */
+export interface LifecycleDetector {
+  getEnabledAccessibilityServices(): Promise<AccessibilityServiceInfo[]>;
+  getInstalledRemoteAccessApps(): Promise<RemoteAccessApp[]>;
+}
+
+export interface LifecycleManagerOptions {
+  /**
+   * Time to wait after the app becomes active before re-checking, so quick
+   * background/foreground bursts (system dialogs, app switcher) result in a
+   * single check, in milliseconds
+   * @default 500
+   */
+  debounceMs: number;
+}
+
+export const DEFAULT_LIFECYCLE_MANAGER_OPTIONS: LifecycleManagerOptions = {
+  debounceMs: 500,
+};
+
+/**
+ * What changed while the app was in the background
+ */
+export interface StateChangedWhileAwayEvent {
+  /** Accessibility services enabled or disabled while away */
+  services: AccessibilityServicesDiff;
+  /** Remote access apps installed or removed while away, keyed on `packageName` */
+  remoteAccessApps: SnapshotDiff<RemoteAccessApp>;
+  /** When the app went to the background, in milliseconds since the epoch */
+  backgroundedAt: number;
+  /** When the app was checked after returning to the foreground, in milliseconds since the epoch */
+  resumedAt: number;
+}
+
+export interface LifecycleSubscription {
+  remove(): void;
+}
+
+interface DeviceSnapshot {
+  services: AccessibilityServiceInfo[];
+  remoteAccessApps: RemoteAccessApp[];
+}
+
+/**
+ * Re-checks accessibility services and remote access apps when the app
+ * returns to the foreground, and reports everything that changed while it
+ * was away as a single event
+ *
+ * Covers changes native listeners miss, such as a service enabled from
+ * Settings while the app was backgrounded on Android 12 and below. The state
+ * is recorded when the app goes to the background and compared with the
+ * state read once it is active again.
+ */
+export class AccessibilityLifecycleManager {
+  private readonly options: LifecycleManagerOptions;
+  private readonly listeners = new Set<
+    (event: StateChangedWhileAwayEvent) => void
+  >();
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private baseline: Promise<DeviceSnapshot | null> | null = null;
+  private backgroundedAt: number | null = null;
+
+  constructor(
+    private readonly detector: LifecycleDetector,
+    options: Partial<LifecycleManagerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_LIFECYCLE_MANAGER_OPTIONS, ...options };
+  }
+
+  /**
+   * Add a listener for changes made while the app was in the background.
+   * The manager starts watching the app state with the first listener and
+   * stops with the last.
+   * @param callback - Function to call with what changed while away
+   *
+   * @example
+   * const manager = new AccessibilityLifecycleManager(AccessibilityServicesDetector);
+   * const subscription = manager.addStateChangedWhileAwayListener(({ services }) => {
+   *   services.added.forEach((service) => console.log('Enabled while away:', service.id));
+   * });
+   */
+  public addStateChangedWhileAwayListener(
+    callback: (event: StateChangedWhileAwayEvent) => void
+  ): LifecycleSubscription {
+    this.listeners.add(callback);
+    this.start();
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+        if (this.listeners.size === 0) {
+          this.stop();
+        }
+      },
+    };
+  }
+
+  public isRunning(): boolean {
+    return this.appStateSubscription !== null;
+  }
+
+  private start(): void {
+    if (this.appStateSubscription) {
+      return;
+    }
+    this.appStateSubscription = AppState.addEventListener(
+      'change',
+      this.handleAppStateChange
+    );
+    if (AppState.currentState === 'background') {
+      this.handleAppStateChange('background');
+    }
+  }
+
+  private stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearTimer();
+    this.baseline = null;
+    this.backgroundedAt = null;
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus): void => {
+    if (nextAppState === 'background') {
+      // Back in the background before the debounced check ran: still the same absence
+      if (this.timer) {
+        this.clearTimer();
+        return;
+      }
+      if (this.backgroundedAt === null) {
+        this.backgroundedAt = Date.now();
+        this.baseline = this.readSnapshot();
+      }
+    } else if (nextAppState === 'active' && this.backgroundedAt !== null) {
+      this.clearTimer();
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.check();
+      }, this.options.debounceMs);
+    }
+  };
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async readSnapshot(): Promise<DeviceSnapshot | null> {
+    try {
+      const [services, remoteAccessApps] = await Promise.all([
+        this.detector.getEnabledAccessibilityServices(),
+        this.detector.getInstalledRemoteAccessApps(),
+      ]);
+      return { services, remoteAccessApps };
+    } catch (error) {
+      log.warn('Failed to read the accessibility state:', error);
+      return null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    const backgroundedAt = this.backgroundedAt;
+    const baseline = this.baseline;
+    this.backgroundedAt = null;
+    this.baseline = null;
+    if (backgroundedAt === null || !baseline) {
+      return;
+    }
+
+    const [previous, current] = await Promise.all([
+      baseline,
+      this.readSnapshot(),
+    ]);
+    if (!previous || !current || !this.isRunning()) {
+      return;
+    }
+
+    const event: StateChangedWhileAwayEvent = {
+      services: diffAccessibilityServices(previous.services, current.services),
+      remoteAccessApps: diffSnapshots(
+        previous.remoteAccessApps,
+        current.remoteAccessApps,
+        (app) => app.packageName
+      ),
+      backgroundedAt,
+      resumedAt: Date.now(),
+    };
+    if (
+      !hasSnapshotChanges(event.services) &&
+      !hasSnapshotChanges(event.remoteAccessApps)
+    ) {
+      log.debug('Nothing changed while the app was in the background');
+      return;
+    }
+
+    log.info('Accessibility state changed while the app was in the background');
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
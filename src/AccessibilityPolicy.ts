@@ -0,0 +1,658 @@
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import { hasFeedback } from './FeedbackTypes';
+import { matchesPattern } from './patternMatching';
+import type {
+  RemoteAccessAppCategory,
+  RemoteAccessRiskTier,
+} from './RemoteAccessAppCatalog';
+
+/**
+ * What happens to a service matched by a policy rule
+ */
+export type PolicyAction = 'allow' | 'deny';
+
+/**
+ * Feedback type as written in a policy definition, either the enum value
+ * or its name (e.g. `"FEEDBACK_SPOKEN"`) for policies loaded from JSON
+ */
+export type PolicyFeedbackType =
+  | AccessibilityServiceFeedbackType
+  | keyof typeof AccessibilityServiceFeedbackType;
+
+/**
+ * A policy rule as declared in JS or JSON. All given conditions must match.
+ *
+ * String conditions are patterns where `*` matches any sequence of characters,
+ * e.g. `"com.samsung.*"`.
+ */
+export interface PolicyRuleDefinition {
+  /** Optional description, included in violation messages */
+  description?: string;
+  /** Pattern matched against `AccessibilityServiceInfo.id` */
+  id?: string;
+  /** Pattern matched against `AccessibilityServiceInfo.packageName` */
+  packageName?: string;
+  /** Pattern matched against `AccessibilityServiceInfo.serviceName` */
+  serviceName?: string;
+  /** Matches services providing any of these feedback types */
+  feedbackTypes?: PolicyFeedbackType[];
+  /** Matches services whose `isSystemApp` equals this value */
+  isSystemApp?: boolean;
+}
+
+/**
+ * A rule for installed remote access apps. All given conditions must match.
+ *
+ * Category and risk tier come from the remote access app catalog, so apps
+ * only declared as custom packages never match them.
+ */
+export interface RemoteAccessAppRuleDefinition {
+  /** Optional description, included in violation messages */
+  description?: string;
+  /** Pattern matched against `RemoteAccessApp.packageName` */
+  packageName?: string;
+  /** Matches apps in any of these catalog categories */
+  categories?: RemoteAccessAppCategory[];
+  /** Matches apps with any of these catalog risk tiers */
+  riskTiers?: RemoteAccessRiskTier[];
+}
+
+/**
+ * Rules for installed remote access apps as declared in JS or JSON
+ */
+export interface RemoteAccessAppPolicyDefinition {
+  /** Rules for trusted apps; these take precedence over `deny` */
+  allow?: RemoteAccessAppRuleDefinition[];
+  /** Rules for blocked apps */
+  deny?: RemoteAccessAppRuleDefinition[];
+  /**
+   * Action for apps that match neither `allow` nor `deny`
+   * @default 'allow'
+   */
+  defaultAction?: PolicyAction;
+}
+
+/**
+ * A policy as declared in JS or loaded from JSON
+ */
+export interface PolicyDefinition {
+  /** Optional policy name, useful when policies are shipped from a backend */
+  name?: string;
+  /** Rules for trusted services; these take precedence over `deny` */
+  allow?: PolicyRuleDefinition[];
+  /** Rules for blocked services */
+  deny?: PolicyRuleDefinition[];
+  /**
+   * Action for services that match neither `allow` nor `deny`
+   * @default 'allow'
+   */
+  defaultAction?: PolicyAction;
+  /** Rules for installed remote access apps; by default every app is allowed */
+  remoteAccessApps?: RemoteAccessAppPolicyDefinition;
+}
+
+/**
+ * A validated policy rule
+ */
+export interface PolicyRule
+  extends Omit<PolicyRuleDefinition, 'feedbackTypes'> {
+  feedbackTypes?: AccessibilityServiceFeedbackType[];
+}
+
+/**
+ * A validated remote access app rule
+ */
+export type RemoteAccessAppRule = RemoteAccessAppRuleDefinition;
+
+/**
+ * Validated rules for installed remote access apps
+ */
+export interface RemoteAccessAppPolicy {
+  allow: RemoteAccessAppRule[];
+  deny: RemoteAccessAppRule[];
+  defaultAction: PolicyAction;
+}
+
+/**
+ * A validated policy, created with `createPolicy()`
+ */
+export interface AccessibilityPolicy {
+  name?: string;
+  allow: PolicyRule[];
+  deny: PolicyRule[];
+  defaultAction: PolicyAction;
+  remoteAccessApps?: RemoteAccessAppPolicy;
+}
+
+/**
+ * Why a service violates a policy
+ * - `denied`: the service matched a `deny` rule
+ * - `not-allowed`: the service matched no rule and the default action is `deny`
+ */
+export type PolicyViolationReason = 'denied' | 'not-allowed';
+
+export interface PolicyViolation {
+  /** The offending service */
+  service: AccessibilityServiceInfo;
+  reason: PolicyViolationReason;
+  /** The `deny` rule that matched, if any */
+  rule?: PolicyRule;
+  /** Human-readable explanation of the violation */
+  message: string;
+}
+
+export interface RemoteAccessAppPolicyViolation {
+  /** The offending app */
+  app: RemoteAccessApp;
+  reason: PolicyViolationReason;
+  /** The `deny` rule that matched, if any */
+  rule?: RemoteAccessAppRule;
+  /** Human-readable explanation of the violation */
+  message: string;
+}
+
+export interface PolicyEvaluationResult {
+  /** Whether no service and no remote access app violates the policy */
+  compliant: boolean;
+  /** Services permitted by the policy */
+  allowed: AccessibilityServiceInfo[];
+  /** Services violating the policy, with the reason */
+  violations: PolicyViolation[];
+  /** Remote access apps permitted by the policy */
+  allowedRemoteAccessApps: RemoteAccessApp[];
+  /** Remote access apps violating the policy, with the reason */
+  remoteAccessAppViolations: RemoteAccessAppPolicyViolation[];
+}
+
+const RULE_PATTERN_KEYS = ['id', 'packageName', 'serviceName'] as const;
+
+const REMOTE_ACCESS_APP_CATEGORIES: readonly RemoteAccessAppCategory[] = [
+  'screen-sharing',
+  'mdm',
+  'remote-support',
+  'remote-desktop-client',
+];
+
+const REMOTE_ACCESS_RISK_TIERS: readonly RemoteAccessRiskTier[] = [
+  'low',
+  'medium',
+  'high',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidPolicy(path: string, message: string): TypeError {
+  return new TypeError(`Invalid accessibility policy: ${path} ${message}`);
+}
+
+function parseFeedbackType(
+  value: unknown,
+  path: string
+): AccessibilityServiceFeedbackType {
+  // Own number-valued keys only: skips reverse mappings ("1") and inherited keys ("toString")
+  if (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(
+      AccessibilityServiceFeedbackType,
+      value
+    ) &&
+    typeof AccessibilityServiceFeedbackType[
+      value as keyof typeof AccessibilityServiceFeedbackType
+    ] === 'number'
+  ) {
+    return AccessibilityServiceFeedbackType[
+      value as keyof typeof AccessibilityServiceFeedbackType
+    ];
+  }
+  if (
+    typeof value === 'number' &&
+    AccessibilityServiceFeedbackType[value] !== undefined
+  ) {
+    return value as AccessibilityServiceFeedbackType;
+  }
+  throw invalidPolicy(path, 'must be an AccessibilityServiceFeedbackType');
+}
+
+function parseRule(value: unknown, path: string): PolicyRule {
+  if (!isRecord(value)) {
+    throw invalidPolicy(path, 'must be an object');
+  }
+
+  const rule: PolicyRule = {};
+
+  if (value.description !== undefined) {
+    if (typeof value.description !== 'string') {
+      throw invalidPolicy(`${path}.description`, 'must be a string');
+    }
+    rule.description = value.description;
+  }
+
+  RULE_PATTERN_KEYS.forEach((key) => {
+    const pattern = value[key];
+    if (pattern === undefined) {
+      return;
+    }
+    if (typeof pattern !== 'string' || pattern.length === 0) {
+      throw invalidPolicy(`${path}.${key}`, 'must be a non-empty string');
+    }
+    rule[key] = pattern;
+  });
+
+  if (value.feedbackTypes !== undefined) {
+    if (!Array.isArray(value.feedbackTypes)) {
+      throw invalidPolicy(`${path}.feedbackTypes`, 'must be an array');
+    }
+    rule.feedbackTypes = value.feedbackTypes.map((feedbackType, index) =>
+      parseFeedbackType(feedbackType, `${path}.feedbackTypes[${index}]`)
+    );
+  }
+
+  if (value.isSystemApp !== undefined) {
+    if (typeof value.isSystemApp !== 'boolean') {
+      throw invalidPolicy(`${path}.isSystemApp`, 'must be a boolean');
+    }
+    rule.isSystemApp = value.isSystemApp;
+  }
+
+  const hasCondition =
+    RULE_PATTERN_KEYS.some((key) => rule[key] !== undefined) ||
+    rule.feedbackTypes !== undefined ||
+    rule.isSystemApp !== undefined;
+  if (!hasCondition) {
+    throw invalidPolicy(path, 'must declare at least one condition');
+  }
+
+  return rule;
+}
+
+function parseRules(value: unknown, path: string): PolicyRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw invalidPolicy(path, 'must be an array');
+  }
+  return value.map((rule, index) => parseRule(rule, `${path}[${index}]`));
+}
+
+function parseDefaultAction(value: unknown, path: string): PolicyAction {
+  if (value === undefined) {
+    return 'allow';
+  }
+  if (value !== 'allow' && value !== 'deny') {
+    throw invalidPolicy(path, "must be 'allow' or 'deny'");
+  }
+  return value;
+}
+
+function parseStringList<T extends string>(
+  value: unknown,
+  allowedValues: readonly T[],
+  path: string
+): T[] {
+  if (!Array.isArray(value)) {
+    throw invalidPolicy(path, 'must be an array');
+  }
+  return value.map((item, index) => {
+    if (!allowedValues.includes(item)) {
+      throw invalidPolicy(
+        `${path}[${index}]`,
+        `must be one of ${allowedValues.join(', ')}`
+      );
+    }
+    return item as T;
+  });
+}
+
+function parseRemoteAccessAppRule(
+  value: unknown,
+  path: string
+): RemoteAccessAppRule {
+  if (!isRecord(value)) {
+    throw invalidPolicy(path, 'must be an object');
+  }
+
+  const rule: RemoteAccessAppRule = {};
+
+  if (value.description !== undefined) {
+    if (typeof value.description !== 'string') {
+      throw invalidPolicy(`${path}.description`, 'must be a string');
+    }
+    rule.description = value.description;
+  }
+  if (value.packageName !== undefined) {
+    if (
+      typeof value.packageName !== 'string' ||
+      value.packageName.length === 0
+    ) {
+      throw invalidPolicy(`${path}.packageName`, 'must be a non-empty string');
+    }
+    rule.packageName = value.packageName;
+  }
+  if (value.categories !== undefined) {
+    rule.categories = parseStringList(
+      value.categories,
+      REMOTE_ACCESS_APP_CATEGORIES,
+      `${path}.categories`
+    );
+  }
+  if (value.riskTiers !== undefined) {
+    rule.riskTiers = parseStringList(
+      value.riskTiers,
+      REMOTE_ACCESS_RISK_TIERS,
+      `${path}.riskTiers`
+    );
+  }
+
+  if (
+    rule.packageName === undefined &&
+    rule.categories === undefined &&
+    rule.riskTiers === undefined
+  ) {
+    throw invalidPolicy(path, 'must declare at least one condition');
+  }
+
+  return rule;
+}
+
+function parseRemoteAccessAppRules(
+  value: unknown,
+  path: string
+): RemoteAccessAppRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw invalidPolicy(path, 'must be an array');
+  }
+  return value.map((rule, index) =>
+    parseRemoteAccessAppRule(rule, `${path}[${index}]`)
+  );
+}
+
+function parseRemoteAccessAppPolicy(
+  value: unknown,
+  path: string
+): RemoteAccessAppPolicy {
+  if (!isRecord(value)) {
+    throw invalidPolicy(path, 'must be an object');
+  }
+  return {
+    allow: parseRemoteAccessAppRules(value.allow, `${path}.allow`),
+    deny: parseRemoteAccessAppRules(value.deny, `${path}.deny`),
+    defaultAction: parseDefaultAction(
+      value.defaultAction,
+      `${path}.defaultAction`
+    ),
+  };
+}
+
+/**
+ * Create a validated policy from a definition or a JSON string
+ * @param definition - Policy definition, or its JSON representation
+ * @returns The validated policy
+ * @throws TypeError if the definition is malformed
+ *
+ * @example
+ * const policy = createPolicy({
+ *   allow: [
+ *     { packageName: 'com.google.android.marvin.talkback' },
+ *     { packageName: 'com.samsung.*', isSystemApp: true },
+ *   ],
+ *   deny: [{ isSystemApp: false }],
+ *   remoteAccessApps: { deny: [{ riskTiers: ['high'] }] },
+ * });
+ *
+ * // Or from JSON shipped by a backend
+ * const remotePolicy = createPolicy(await response.text());
+ */
+export function createPolicy(
+  definition: PolicyDefinition | string
+): AccessibilityPolicy {
+  let value: unknown = definition;
+  if (typeof definition === 'string') {
+    try {
+      value = JSON.parse(definition);
+    } catch (error) {
+      throw invalidPolicy('JSON', `could not be parsed: ${String(error)}`);
+    }
+  }
+
+  if (!isRecord(value)) {
+    throw invalidPolicy('policy', 'must be an object');
+  }
+  if (value.name !== undefined && typeof value.name !== 'string') {
+    throw invalidPolicy('name', 'must be a string');
+  }
+
+  return {
+    ...(value.name !== undefined && { name: value.name }),
+    allow: parseRules(value.allow, 'allow'),
+    deny: parseRules(value.deny, 'deny'),
+    defaultAction: parseDefaultAction(value.defaultAction, 'defaultAction'),
+    ...(value.remoteAccessApps !== undefined && {
+      remoteAccessApps: parseRemoteAccessAppPolicy(
+        value.remoteAccessApps,
+        'remoteAccessApps'
+      ),
+    }),
+  };
+}
+
+/**
+ * Check whether a service satisfies every condition of a rule
+ */
+export function matchesPolicyRule(
+  service: AccessibilityServiceInfo,
+  rule: PolicyRule
+): boolean {
+  if (
+    RULE_PATTERN_KEYS.some(
+      (key) =>
+        rule[key] !== undefined && !matchesPattern(service[key], rule[key])
+    )
+  ) {
+    return false;
+  }
+  if (
+    rule.feedbackTypes !== undefined &&
+    !rule.feedbackTypes.some((feedbackType) =>
+      hasFeedback(service, feedbackType)
+    )
+  ) {
+    return false;
+  }
+  if (
+    rule.isSystemApp !== undefined &&
+    service.isSystemApp !== rule.isSystemApp
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function describeRule(rule: PolicyRule): string {
+  if (rule.description) {
+    return rule.description;
+  }
+  const conditions = [
+    ...RULE_PATTERN_KEYS.filter((key) => rule[key] !== undefined).map(
+      (key) => `${key} ${rule[key]}`
+    ),
+    ...(rule.feedbackTypes
+      ? [
+          `feedbackTypes ${rule.feedbackTypes
+            .map(
+              (feedbackType) => AccessibilityServiceFeedbackType[feedbackType]
+            )
+            .join('|')}`,
+        ]
+      : []),
+    ...(rule.isSystemApp !== undefined
+      ? [`isSystemApp ${rule.isSystemApp}`]
+      : []),
+  ];
+  return conditions.join(', ');
+}
+
+/**
+ * Check whether a remote access app satisfies every condition of a rule
+ */
+export function matchesRemoteAccessAppRule(
+  app: RemoteAccessApp,
+  rule: RemoteAccessAppRule
+): boolean {
+  if (
+    rule.packageName !== undefined &&
+    !matchesPattern(app.packageName, rule.packageName)
+  ) {
+    return false;
+  }
+  if (
+    rule.categories !== undefined &&
+    (app.category === undefined || !rule.categories.includes(app.category))
+  ) {
+    return false;
+  }
+  if (
+    rule.riskTiers !== undefined &&
+    (app.riskTier === undefined || !rule.riskTiers.includes(app.riskTier))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function describeRemoteAccessAppRule(rule: RemoteAccessAppRule): string {
+  if (rule.description) {
+    return rule.description;
+  }
+  return [
+    ...(rule.packageName !== undefined
+      ? [`packageName ${rule.packageName}`]
+      : []),
+    ...(rule.categories ? [`categories ${rule.categories.join('|')}`] : []),
+    ...(rule.riskTiers ? [`riskTiers ${rule.riskTiers.join('|')}`] : []),
+  ].join(', ');
+}
+
+function evaluateRemoteAccessApps(
+  apps: RemoteAccessApp[],
+  policy: RemoteAccessAppPolicy | undefined
+): Pick<
+  PolicyEvaluationResult,
+  'allowedRemoteAccessApps' | 'remoteAccessAppViolations'
+> {
+  if (!policy) {
+    return { allowedRemoteAccessApps: apps, remoteAccessAppViolations: [] };
+  }
+
+  const allowedRemoteAccessApps: RemoteAccessApp[] = [];
+  const remoteAccessAppViolations: RemoteAccessAppPolicyViolation[] = [];
+
+  apps.forEach((app) => {
+    if (policy.allow.some((rule) => matchesRemoteAccessAppRule(app, rule))) {
+      allowedRemoteAccessApps.push(app);
+      return;
+    }
+
+    const denyRule = policy.deny.find((rule) =>
+      matchesRemoteAccessAppRule(app, rule)
+    );
+    if (denyRule) {
+      remoteAccessAppViolations.push({
+        app,
+        reason: 'denied',
+        rule: denyRule,
+        message: `${app.packageName} is denied by rule: ${describeRemoteAccessAppRule(denyRule)}`,
+      });
+      return;
+    }
+
+    if (policy.defaultAction === 'deny') {
+      remoteAccessAppViolations.push({
+        app,
+        reason: 'not-allowed',
+        message: `${app.packageName} is not in the allow list`,
+      });
+      return;
+    }
+
+    allowedRemoteAccessApps.push(app);
+  });
+
+  return { allowedRemoteAccessApps, remoteAccessAppViolations };
+}
+
+/**
+ * Evaluate enabled services and installed remote access apps against a policy
+ *
+ * `allow` rules take precedence over `deny` rules, so a broad deny rule can be
+ * combined with specific trusted exceptions. Services matching neither fall
+ * back to the policy's `defaultAction`. Remote access apps are evaluated the
+ * same way against the policy's `remoteAccessApps` rules.
+ *
+ * @param services - Services to check, usually from `getEnabledAccessibilityServices()`
+ * @param policy - Policy created with `createPolicy()`
+ * @param remoteAccessApps - Apps to check, usually from `getInstalledRemoteAccessApps()`
+ * @returns Which services and apps are allowed and which violate the policy, and why
+ */
+export function evaluatePolicy(
+  services: AccessibilityServiceInfo[],
+  policy: AccessibilityPolicy,
+  remoteAccessApps: RemoteAccessApp[] = []
+): PolicyEvaluationResult {
+  const allowed: AccessibilityServiceInfo[] = [];
+  const violations: PolicyViolation[] = [];
+
+  services.forEach((service) => {
+    if (policy.allow.some((rule) => matchesPolicyRule(service, rule))) {
+      allowed.push(service);
+      return;
+    }
+
+    const denyRule = policy.deny.find((rule) =>
+      matchesPolicyRule(service, rule)
+    );
+    if (denyRule) {
+      violations.push({
+        service,
+        reason: 'denied',
+        rule: denyRule,
+        message: `${service.id} is denied by rule: ${describeRule(denyRule)}`,
+      });
+      return;
+    }
+
+    if (policy.defaultAction === 'deny') {
+      violations.push({
+        service,
+        reason: 'not-allowed',
+        message: `${service.id} is not in the allow list`,
+      });
+      return;
+    }
+
+    allowed.push(service);
+  });
+
+  const remoteAccessAppResult = evaluateRemoteAccessApps(
+    remoteAccessApps,
+    policy.remoteAccessApps
+  );
+
+  return {
+    compliant:
+      violations.length === 0 &&
+      remoteAccessAppResult.remoteAccessAppViolations.length === 0,
+    allowed,
+    violations,
+    ...remoteAccessAppResult,
+  };
+}
@@ -0,0 +1,62 @@
+import {
+  AccessibilityServiceCapability,
+  AccessibilityServiceEventType,
+  AccessibilityServiceFlag,
+  type AccessibilityServiceInfo,
+  type CapabilityMask,
+  type EventTypeMask,
+  type FlagMask,
+} from './AccessibilityServicesDetector.types';
+import { decodeBitmask } from './bitmask';
+
+/**
+ * Names of the accessibility event types in a mask
+ * @param eventTypes - Event types bitmask, e.g. `service.eventTypes`
+ * @returns Names such as `TYPE_WINDOW_STATE_CHANGED`, or `TYPES_ALL_MASK` when the service listens to every event
+ *
+ * @example
+ * getEventTypeNames(AccessibilityServiceEventType.TYPE_VIEW_CLICKED | AccessibilityServiceEventType.TYPE_VIEW_FOCUSED);
+ * // ['TYPE_VIEW_CLICKED', 'TYPE_VIEW_FOCUSED']
+ */
+export function getEventTypeNames(eventTypes: EventTypeMask): string[] {
+  if (eventTypes === AccessibilityServiceEventType.TYPES_ALL_MASK) {
+    return ['TYPES_ALL_MASK'];
+  }
+  return decodeBitmask(AccessibilityServiceEventType, eventTypes);
+}
+
+/**
+ * Names of the configuration flags in a mask
+ * @param flags - Flags bitmask, e.g. `service.flags`
+ * @returns Names such as `FLAG_REQUEST_FILTER_KEY_EVENTS`
+ */
+export function getFlagNames(flags: FlagMask): string[] {
+  return decodeBitmask(AccessibilityServiceFlag, flags);
+}
+
+/**
+ * Names of the capabilities in a mask
+ * @param capabilities - Capabilities bitmask, e.g. `service.capabilities`
+ * @returns Names such as `CAPABILITY_CAN_PERFORM_GESTURES`
+ */
+export function getCapabilityNames(capabilities: CapabilityMask): string[] {
+  return decodeBitmask(AccessibilityServiceCapability, capabilities);
+}
+
+/**
+ * Whether a service was granted a capability
+ * @param service - The accessibility service
+ * @param capability - Capability to check
+ *
+ * @example
+ * const canControlDevice = services.some((service) =>
+ *   hasCapability(service, AccessibilityServiceCapability.CAPABILITY_CAN_PERFORM_GESTURES)
+ * );
+ */
+export function hasCapability(
+  service: Pick<AccessibilityServiceInfo, 'capabilities'>,
+  capability: AccessibilityServiceCapability
+): boolean {
+  // eslint-disable-next-line no-bitwise
+  return ((service.capabilities ?? 0) & capability) !== 0;
+}
@@ -0,0 +1,296 @@
+import type { AccessibilityServiceInfo } from './AccessibilityServicesDetector.types';
+import { matchesPattern } from './patternMatching';
+
+/**
+ * What an accessibility service is used for
+ */
+export type AccessibilityServiceClassification =
+  | 'screen-reader'
+  | 'switch-access'
+  | 'voice-control'
+  | 'magnification'
+  | 'password-manager'
+  | 'launcher'
+  | 'automation'
+  | 'remote-control'
+  | 'overlay'
+  | 'unknown';
+
+/**
+ * Whether a service is known to be trustworthy
+ * - `known-good`: a legitimate service, e.g. a platform screen reader
+ * - `known-bad`: malware or a service abused to take over the device
+ * - `unknown`: no verdict
+ */
+export type AccessibilityServiceVerdict =
+  | 'known-good'
+  | 'known-bad'
+  | 'unknown';
+
+/**
+ * Identifies one or more accessibility services
+ *
+ * Every pattern given must match; `*` matches any sequence of characters.
+ * At least one of `id`, `packageName` or `serviceName` is required.
+ */
+export interface AccessibilityServiceFingerprint {
+  /** Pattern matched against `AccessibilityServiceInfo.id` */
+  id?: string;
+  /** Pattern matched against `AccessibilityServiceInfo.packageName` */
+  packageName?: string;
+  /** Pattern matched against `AccessibilityServiceInfo.serviceName` */
+  serviceName?: string;
+  /** Name of the product the service belongs to */
+  name?: string;
+  classification: AccessibilityServiceClassification;
+  verdict: AccessibilityServiceVerdict;
+  notes?: string;
+}
+
+export interface AccessibilityServiceClassificationResult {
+  classification: AccessibilityServiceClassification;
+  verdict: AccessibilityServiceVerdict;
+  /** The fingerprint that matched, if any */
+  fingerprint?: AccessibilityServiceFingerprint;
+  /** Where the matching fingerprint came from */
+  source: 'override' | 'bundled' | 'none';
+}
+
+/**
+ * Version of the bundled fingerprint database, bumped whenever entries change
+ */
+export const ACCESSIBILITY_SERVICE_FINGERPRINTS_VERSION = '1.0.0';
+
+/**
+ * Fingerprints shipped with the library
+ *
+ * Only verified entries are bundled. Entries matching a single service come
+ * before entries matching a whole package, since the first match wins.
+ * Known-bad services are not bundled; add them from your own threat
+ * intelligence with `addAccessibilityServiceFingerprints()`.
+ */
+export const BUNDLED_ACCESSIBILITY_SERVICE_FINGERPRINTS: readonly AccessibilityServiceFingerprint[] =
+  [
+    {
+      packageName: 'com.google.android.marvin.talkback',
+      serviceName: '*.TalkBackService',
+      name: 'TalkBack',
+      classification: 'screen-reader',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.google.android.marvin.talkback',
+      serviceName: '*.SwitchAccessService',
+      name: 'Switch Access',
+      classification: 'switch-access',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.google.android.marvin.talkback',
+      serviceName: '*.SelectToSpeakService',
+      name: 'Select to Speak',
+      classification: 'screen-reader',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.google.android.marvin.talkback',
+      name: 'Android Accessibility Suite',
+      classification: 'unknown',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.samsung.android.accessibility.talkback',
+      name: 'Samsung TalkBack',
+      classification: 'screen-reader',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.google.android.apps.accessibility.voiceaccess',
+      name: 'Voice Access',
+      classification: 'voice-control',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.google.android.apps.accessibility.maui.actionblocks',
+      name: 'Action Blocks',
+      classification: 'automation',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.x8bit.bitwarden',
+      name: 'Bitwarden',
+      classification: 'password-manager',
+      verdict: 'known-good',
+      notes:
+        'Uses accessibility for autofill in apps without Autofill Framework support',
+    },
+    {
+      packageName: 'com.lastpass.lpandroid',
+      name: 'LastPass',
+      classification: 'password-manager',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.onepassword.android',
+      name: '1Password',
+      classification: 'password-manager',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.dashlane',
+      name: 'Dashlane',
+      classification: 'password-manager',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'keepass2android.keepass2android',
+      name: 'Keepass2Android',
+      classification: 'password-manager',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'bitpit.launcher',
+      name: 'Niagara Launcher',
+      classification: 'launcher',
+      verdict: 'known-good',
+      notes: 'Uses accessibility to lock the screen and open notifications',
+    },
+    {
+      packageName: 'net.dinglisch.android.taskerm',
+      name: 'Tasker',
+      classification: 'automation',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.llamalab.automate',
+      name: 'Automate',
+      classification: 'automation',
+      verdict: 'known-good',
+    },
+    {
+      packageName: 'com.teamviewer.quicksupport.market',
+      name: 'TeamViewer QuickSupport',
+      classification: 'remote-control',
+      verdict: 'unknown',
+      notes: 'Legitimate, but lets a remote party control the device',
+    },
+    {
+      packageName: 'com.teamviewer.host.market',
+      name: 'TeamViewer Host',
+      classification: 'remote-control',
+      verdict: 'unknown',
+      notes: 'Legitimate, but lets a remote party control the device',
+    },
+    {
+      packageName: 'com.anydesk.anydeskandroid',
+      name: 'AnyDesk',
+      classification: 'remote-control',
+      verdict: 'unknown',
+      notes: 'Legitimate, but lets a remote party control the device',
+    },
+  ];
+
+let overrides: AccessibilityServiceFingerprint[] = [];
+
+function validateFingerprint(
+  fingerprint: AccessibilityServiceFingerprint,
+  index: number
+): void {
+  if (!fingerprint.id && !fingerprint.packageName && !fingerprint.serviceName) {
+    throw new TypeError(
+      `Invalid accessibility service fingerprint: [${index}] requires an id, packageName or serviceName`
+    );
+  }
+}
+
+/**
+ * Add fingerprints checked before the bundled ones, e.g. known-bad services
+ * from a threat feed or in-house services
+ * @param fingerprints - Fingerprints to add; among overrides, the most recently added match wins
+ *
+ * @example
+ * addAccessibilityServiceFingerprints([
+ *   { packageName: 'com.example.helpdesk', classification: 'remote-control', verdict: 'known-good' },
+ *   { id: 'com.example.fake/.OverlayService', classification: 'overlay', verdict: 'known-bad' },
+ * ]);
+ */
+export function addAccessibilityServiceFingerprints(
+  fingerprints: readonly AccessibilityServiceFingerprint[]
+): void {
+  fingerprints.forEach(validateFingerprint);
+  overrides = [...fingerprints, ...overrides];
+}
+
+/**
+ * Remove every fingerprint added with `addAccessibilityServiceFingerprints()`
+ */
+export function clearAccessibilityServiceFingerprints(): void {
+  overrides = [];
+}
+
+/**
+ * Check whether a fingerprint matches a service
+ */
+export function matchesFingerprint(
+  service: AccessibilityServiceInfo,
+  fingerprint: AccessibilityServiceFingerprint
+): boolean {
+  if (fingerprint.id && !matchesPattern(service.id, fingerprint.id)) {
+    return false;
+  }
+  if (
+    fingerprint.packageName &&
+    !matchesPattern(service.packageName, fingerprint.packageName)
+  ) {
+    return false;
+  }
+  if (
+    fingerprint.serviceName &&
+    !matchesPattern(service.serviceName, fingerprint.serviceName)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Classify an accessibility service using the app-supplied fingerprints,
+ * then the bundled ones
+ * @param service - The service to classify
+ * @returns The classification and verdict of the first matching fingerprint, or `unknown`
+ *
+ * @example
+ * const services = await getEnabledAccessibilityServices();
+ * const malicious = services.filter(
+ *   (service) => classifyAccessibilityService(service).verdict === 'known-bad'
+ * );
+ */
+export function classifyAccessibilityService(
+  service: AccessibilityServiceInfo
+): AccessibilityServiceClassificationResult {
+  const override = overrides.find((fingerprint) =>
+    matchesFingerprint(service, fingerprint)
+  );
+  if (override) {
+    return {
+      classification: override.classification,
+      verdict: override.verdict,
+      fingerprint: override,
+      source: 'override',
+    };
+  }
+
+  const bundled = BUNDLED_ACCESSIBILITY_SERVICE_FINGERPRINTS.find(
+    (fingerprint) => matchesFingerprint(service, fingerprint)
+  );
+  if (bundled) {
+    return {
+      classification: bundled.classification,
+      verdict: bundled.verdict,
+      fingerprint: bundled,
+      source: 'bundled',
+    };
+  }
+
+  return { classification: 'unknown', verdict: 'unknown', source: 'none' };
+}
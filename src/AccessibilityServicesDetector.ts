@@ -0,0 +1,843 @@
+import {
+  type EmitterSubscription,
+  NativeEventEmitter,
+  Platform,
+} from 'react-native';
+import type {
+  AccessibilityServiceInfo,
+  IAccessibilityServicesDetector,
+  IconOptions,
+  RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import {
+  type AccessibilityDetectorErrorCode,
+  toAccessibilityDetectorError,
+  UnsupportedPlatformError,
+} from './AccessibilityDetectorError';
+import AccessibilityServicesDetectorModule from './AccessibilityServicesDetectorModule';
+import {
+  type AccessibilityServicesDiff,
+  diffAccessibilityServices,
+  hasSnapshotChanges,
+} from './AccessibilityServicesDiff';
+import {
+  AccessibilityServicesPoller,
+  DEFAULT_POLLING_OPTIONS,
+  type ListeningMode,
+  type PollingOptions,
+  validatePollingOptions,
+} from './AccessibilityServicesPoller';
+import { getAssistiveTechnologies } from './AssistiveTechnologies';
+import { getConfiguration, log } from './configuration';
+import {
+  DEVICE_ACCESSIBILITY_SNAPSHOT_VERSION,
+  type DeviceAccessibilitySnapshot,
+  DeviceSnapshotWatcher,
+  type DeviceSnapshotSubscription,
+  readAccessibilitySettings,
+} from './DeviceAccessibilitySnapshot';
+import { LruCache } from './LruCache';
+import {
+  type AccessibilitySnapshot,
+  type CacheOptions,
+  SnapshotCache,
+} from './SnapshotCache';
+import {
+  getRemoteAccessAppCatalogEntry,
+  REMOTE_ACCESS_APP_PACKAGES,
+} from './RemoteAccessAppCatalog';
+import {
+  getPlatformCapabilities,
+  NATIVE_LISTENING_MIN_API_LEVEL,
+  type PlatformCapabilities,
+} from './PlatformCapabilities';
+import {
+  type RemoteAccessPackage,
+  resolveRemoteAccessPackages,
+  validatePackageNames,
+} from './RemoteAccessPackages';
+import {
+  type AssessRiskOptions,
+  evaluateRisk,
+  type RiskReport,
+} from './RiskAssessment';
+
+const eventEmitter =
+  Platform.OS === 'android'
+    ? new NativeEventEmitter(AccessibilityServicesDetectorModule)
+    : null;
+
+const DEFAULT_ICON_OPTIONS: IconOptions = {
+  includeIcons: true,
+  iconSize: null,
+};
+
+/**
+ * Number of icons kept by `getAppIcon()`
+ */
+const ICON_CACHE_CAPACITY = 50;
+
+function validateIconSize(iconSize: number | null | undefined): void {
+  if (
+    iconSize !== null &&
+    iconSize !== undefined &&
+    (!Number.isInteger(iconSize) || iconSize <= 0)
+  ) {
+    throw new TypeError(
+      `iconSize must be a positive integer or null, got ${iconSize}`
+    );
+  }
+}
+
+class AccessibilityServicesDetectorWrapper
+  implements
+    Omit<
+      IAccessibilityServicesDetector,
+      | 'addListener'
+      | 'removeListeners'
+      | 'getInstalledRemoteAccessApps'
+      | 'getPackageVisibility'
+    >
+{
+  private listenerCount = 0;
+  private listeners: EmitterSubscription[] = [];
+  private poller: AccessibilityServicesPoller | null = null;
+  private pollingOptions: PollingOptions = { ...DEFAULT_POLLING_OPTIONS };
+  private cache = new SnapshotCache();
+  private cacheSubscription: EmitterSubscription | null = null;
+  private iconOptions: IconOptions = { ...DEFAULT_ICON_OPTIONS };
+  private iconCache = new LruCache<string, string | null>(ICON_CACHE_CAPACITY);
+  private runtimePackages = new Set<string>();
+  private snapshotWatcher = new DeviceSnapshotWatcher({
+    getAccessibilitySnapshot: () => this.getAccessibilitySnapshot(),
+    addAccessibilityServicesListener: (callback) =>
+      this.getPlatformCapabilities().changeEvents === 'none'
+        ? Promise.resolve(null)
+        : this.addAccessibilityServicesListener(callback),
+  });
+
+  public async startListening(): Promise<void> {
+    if (!this._ensurePlatformSupported('startListening')) {
+      return Promise.resolve();
+    }
+    return this._startChangeDetection();
+  }
+
+  public async stopListening(): Promise<void> {
+    try {
+      if (!this._ensurePlatformSupported('stopListening')) {
+        return Promise.resolve();
+      }
+
+      await this._stopChangeDetection();
+      this.listeners.forEach((listener) => listener.remove());
+      this.listeners = [];
+      this.listenerCount = 0;
+      return Promise.resolve();
+    } catch (error) {
+      const detectorError = toAccessibilityDetectorError(
+        error,
+        'E_STOP_LISTENING_FAILED'
+      );
+      log.error('Failed to stop listening:', detectorError);
+      return Promise.reject(detectorError);
+    }
+  }
+
+  /**
+   * Add a listener for accessibility services changes
+   * @param callback - Function to call when accessibility services change
+   * @returns Promise resolving to a subscription object that can be used to remove the listener
+   *
+   * @example
+   * const subscription = await AccessibilityServicesDetector.addAccessibilityServicesListener((enabledServices) => {
+   *   console.log('Accessibility services changed:', enabledServices);
+   * });
+   *
+   * // To remove the listener
+   * subscription?.remove();
+   */
+  public async addAccessibilityServicesListener(
+    callback: (enabledServices: AccessibilityServiceInfo[]) => void
+  ): Promise<EmitterSubscription | null> {
+    if (
+      !this._ensurePlatformSupported('addAccessibilityServicesListener') ||
+      !eventEmitter
+    ) {
+      return null;
+    }
+
+    try {
+      // Start listening if this is the first listener
+      if (this.listenerCount === 0) {
+        await this._startChangeDetection();
+        log.info(
+          `Started listening for accessibility services changes (${this.getListeningMode()})`
+        );
+      }
+
+      const subscription = eventEmitter.addListener(
+        'AccessibilityServicesChanged',
+        callback
+      );
+      this.listeners.push(subscription);
+      this.listenerCount++;
+
+      // Wrap the remove method to handle listener count
+      const originalRemove = subscription.remove.bind(subscription);
+      subscription.remove = () => {
+        originalRemove();
+        this.listenerCount--;
+
+        // Stop listening if this was the last listener
+        if (this.listenerCount === 0) {
+          this._stopChangeDetection()
+            .then(() => {
+              // this.listenerCount = 0;
+              log.info('Stopped listening for accessibility services changes');
+            })
+            .catch((error: unknown) => {
+              log.warn(
+                'Failed to stop listening when removing last listener:',
+                error
+              );
+            });
+        }
+      };
+
+      return subscription;
+    } catch (error) {
+      this._handleError(
+        error,
+        'E_START_LISTENING_FAILED',
+        'Failed to add accessibility services listener:'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Add a listener that receives what changed instead of the full list of services
+   *
+   * The listener keeps the last known snapshot, starting from the services
+   * enabled when it is added, and is only called when a service was enabled or
+   * disabled.
+   *
+   * @param callback - Function to call with the services added, removed and unchanged since the last event
+   * @returns Promise resolving to a subscription object that can be used to remove the listener
+   *
+   * @example
+   * const subscription = await AccessibilityServicesDetector.addAccessibilityServicesChangeListener(({ added, removed }) => {
+   *   added.forEach((service) => console.log('User enabled', service.id));
+   *   removed.forEach((service) => console.log('User disabled', service.id));
+   * });
+   */
+  public async addAccessibilityServicesChangeListener(
+    callback: (diff: AccessibilityServicesDiff) => void
+  ): Promise<EmitterSubscription | null> {
+    if (
+      !this._ensurePlatformSupported(
+        'addAccessibilityServicesChangeListener'
+      ) ||
+      !eventEmitter
+    ) {
+      return null;
+    }
+
+    let previous: AccessibilityServiceInfo[];
+    try {
+      previous =
+        await AccessibilityServicesDetectorModule.getEnabledAccessibilityServices(
+          this.iconOptions
+        );
+    } catch (error) {
+      this._handleError(
+        error,
+        'E_SERVICE_QUERY_FAILED',
+        'Failed to get initial accessibility services:'
+      );
+      return null;
+    }
+
+    return this.addAccessibilityServicesListener((current) => {
+      const diff = diffAccessibilityServices(previous, current);
+      previous = current;
+      if (hasSnapshotChanges(diff)) {
+        callback(diff);
+      }
+    });
+  }
+
+  /**
+   * Remove a listener for accessibility services changes
+   * @param subscription - The subscription object returned from addAccessibilityServicesListener
+   */
+  public removeAccessibilityServicesListener(
+    subscription: EmitterSubscription | null
+  ): void {
+    if (!this._ensurePlatformSupported('removeAccessibilityServicesListener')) {
+      return;
+    }
+    subscription?.remove();
+  }
+
+  /**
+   * Get the current number of active listeners
+   * @returns Number of active listeners
+   */
+  public getListenerCount(): number {
+    if (!this._ensurePlatformSupported('getListenerCount')) {
+      return 0;
+    }
+    return this.listenerCount;
+  }
+
+  /**
+   * Check if the detector is currently listening for changes
+   * @returns Boolean indicating if listening is active
+   */
+  public getIsListening(): boolean {
+    if (!this._ensurePlatformSupported('getIsListening')) {
+      return false;
+    }
+    if (this.poller?.isRunning()) {
+      return true;
+    }
+    return AccessibilityServicesDetectorModule.getIsListening();
+  }
+
+  /**
+   * Get how changes to accessibility services are currently detected
+   * @returns `native` on Android 13+, `polling` on older Android versions, or `none` when not listening
+   */
+  public getListeningMode(): ListeningMode {
+    if (Platform.OS !== 'android') {
+      return 'none';
+    }
+    if (this.poller?.isRunning()) {
+      return 'polling';
+    }
+    return AccessibilityServicesDetectorModule.getIsListening()
+      ? 'native'
+      : 'none';
+  }
+
+  /**
+   * Configure the polling fallback used on Android versions without native change events
+   * @param options - Options to change; omitted options keep their current value
+   *
+   * @example
+   * AccessibilityServicesDetector.setPollingOptions({ intervalMs: 10000 });
+   */
+  public setPollingOptions(options: Partial<PollingOptions>): void {
+    validatePollingOptions(options);
+    this.pollingOptions = { ...this.pollingOptions, ...options };
+
+    // Restart a running poller so the new options take effect
+    if (this.poller?.isRunning()) {
+      this.poller.stop();
+      this.poller = null;
+      if (this.pollingOptions.enabled) {
+        this._startPolling();
+      }
+    }
+  }
+
+  /**
+   * Configure the in-memory cache and the persisted snapshot
+   * @param options - Options to change; omitted options keep their current value
+   *
+   * @example
+   * AccessibilityServicesDetector.setCacheOptions({
+   *   enabled: true,
+   *   ttlMs: 60000,
+   *   storage: AsyncStorage,
+   * });
+   */
+  public setCacheOptions(options: Partial<CacheOptions>): void {
+    this.cache.setOptions(options);
+  }
+
+  /**
+   * Drop the cached services and remote access apps so the next reads query the device
+   */
+  public invalidateCache(): void {
+    this.cache.invalidate();
+  }
+
+  /**
+   * Get the snapshot persisted during the previous launch, to find out what
+   * changed since the app last ran
+   * @returns Promise resolving to the snapshot, or null without storage or a previous snapshot
+   *
+   * @example
+   * const previous = await AccessibilityServicesDetector.getPreviousSnapshot();
+   * if (previous?.services) {
+   *   const { added } = diffAccessibilityServices(
+   *     previous.services,
+   *     await AccessibilityServicesDetector.getEnabledAccessibilityServices()
+   *   );
+   * }
+   */
+  public getPreviousSnapshot(): Promise<AccessibilitySnapshot | null> {
+    return this.cache.getPreviousSnapshot();
+  }
+
+  /**
+   * Configure the icons embedded in results and change events
+   * @param options - Options to change; omitted options keep their current value
+   *
+   * @example
+   * // Leave icons out of results and load them with getAppIcon() when displayed
+   * AccessibilityServicesDetector.setIconOptions({ includeIcons: false });
+   */
+  public setIconOptions(options: Partial<IconOptions>): void {
+    validateIconSize(options.iconSize);
+    this.iconOptions = { ...this.iconOptions, ...options };
+    this.cache.invalidate();
+    if (Platform.OS === 'android') {
+      AccessibilityServicesDetectorModule.setIconOptions(this.iconOptions);
+    }
+  }
+
+  /**
+   * Get the enabled accessibility services
+   * @param options - Icon options for this call, overriding the ones set with `setIconOptions()`.
+   * Calls with different options than those bypass the cache.
+   *
+   * @example
+   * const services = await AccessibilityServicesDetector.getEnabledAccessibilityServices({
+   *   includeIcons: true,
+   *   iconSize: 48,
+   * });
+   */
+  public async getEnabledAccessibilityServices(
+    options: Partial<IconOptions> = {}
+  ): Promise<AccessibilityServiceInfo[]> {
+    if (this._readsAssistiveTechnologies()) {
+      return this.cache.get('services', getAssistiveTechnologies);
+    }
+    if (!this._ensurePlatformSupported('getEnabledAccessibilityServices')) {
+      return Promise.resolve([]);
+    }
+    const iconOptions = this._resolveIconOptions(options);
+    const load = () =>
+      this._callNative(
+        () =>
+          AccessibilityServicesDetectorModule.getEnabledAccessibilityServices(
+            iconOptions
+          ),
+        'E_SERVICE_QUERY_FAILED'
+      );
+    return iconOptions === this.iconOptions
+      ? this.cache.get('services', load)
+      : load();
+  }
+
+  public async hasEnabledAccessibilityServices(): Promise<boolean> {
+    if (this._readsAssistiveTechnologies()) {
+      const services = await this.getEnabledAccessibilityServices();
+      return services.length > 0;
+    }
+    if (!this._ensurePlatformSupported('hasEnabledAccessibilityServices')) {
+      return false;
+    }
+    return this._callNative(
+      () =>
+        AccessibilityServicesDetectorModule.hasEnabledAccessibilityServices(),
+      'E_SERVICE_QUERY_FAILED'
+    );
+  }
+
+  /**
+   * Describe what each method can report on the current platform
+   *
+   * @example
+   * const { enabledServices } = AccessibilityServicesDetector.getPlatformCapabilities();
+   * if (enabledServices === 'none') {
+   *   // An empty list does not mean that no services are enabled
+   * }
+   */
+  public getPlatformCapabilities(): PlatformCapabilities {
+    return getPlatformCapabilities(Platform.OS, {
+      apiLevel: Number(Platform.Version),
+      pollingEnabled: this.pollingOptions.enabled,
+    });
+  }
+
+  /**
+   * Capture the enabled services, installed remote access apps and
+   * `AccessibilityInfo` settings as a single serializable object. Icons are
+   * left out to keep it small.
+   *
+   * @example
+   * const snapshot = await AccessibilityServicesDetector.getAccessibilitySnapshot();
+   * if (snapshot.settings.screenReaderEnabled || snapshot.services.length > 0) {
+   *   report(JSON.stringify(snapshot));
+   * }
+   */
+  public async getAccessibilitySnapshot(): Promise<DeviceAccessibilitySnapshot> {
+    const capabilities = this.getPlatformCapabilities();
+    const [services, remoteAccessApps, settings] = await Promise.all([
+      capabilities.enabledServices === 'none'
+        ? Promise.resolve([])
+        : this.getEnabledAccessibilityServices({ includeIcons: false }),
+      capabilities.remoteAccessApps === 'none'
+        ? Promise.resolve([])
+        : this.getInstalledRemoteAccessApps({ includeIcons: false }),
+      readAccessibilitySettings(),
+    ]);
+    return {
+      version: DEVICE_ACCESSIBILITY_SNAPSHOT_VERSION,
+      platform: Platform.OS,
+      capturedAt: Date.now(),
+      services,
+      remoteAccessApps,
+      settings,
+    };
+  }
+
+  /**
+   * Add a listener called with a new snapshot whenever the services, the
+   * remote access apps or an `AccessibilityInfo` setting change. Remote
+   * access apps are re-read when the app returns to the foreground.
+   * @param callback - Function to call with the new snapshot; not called for the initial state
+   *
+   * @example
+   * const subscription = await AccessibilityServicesDetector.addAccessibilitySnapshotListener((snapshot) => {
+   *   console.log('Accessibility state changed:', snapshot);
+   * });
+   * subscription.remove();
+   */
+  public addAccessibilitySnapshotListener(
+    callback: (snapshot: DeviceAccessibilitySnapshot) => void
+  ): Promise<DeviceSnapshotSubscription> {
+    return this.snapshotWatcher.addListener(callback);
+  }
+
+  /**
+   * Whether enabled services are read from `AccessibilityInfo` rather than the native module
+   */
+  private _readsAssistiveTechnologies(): boolean {
+    return (
+      Platform.OS !== 'android' &&
+      getPlatformCapabilities(Platform.OS).enabledServices !== 'none'
+    );
+  }
+
+  private _supportsNativeListening(): boolean {
+    return (
+      Platform.OS === 'android' &&
+      Number(Platform.Version) >= NATIVE_LISTENING_MIN_API_LEVEL
+    );
+  }
+
+  private async _startChangeDetection(): Promise<void> {
+    // Keep the cache in sync with change events
+    if (!this.cacheSubscription) {
+      this.cacheSubscription =
+        eventEmitter?.addListener(
+          'AccessibilityServicesChanged',
+          (services: AccessibilityServiceInfo[]) =>
+            this.cache.set('services', services)
+        ) ?? null;
+    }
+    if (this._supportsNativeListening() || !this.pollingOptions.enabled) {
+      await this._callNative(
+        () => AccessibilityServicesDetectorModule.startListening(),
+        'E_START_LISTENING_FAILED'
+      );
+      return;
+    }
+    this._startPolling();
+  }
+
+  private async _stopChangeDetection(): Promise<void> {
+    this.cacheSubscription?.remove();
+    this.cacheSubscription = null;
+    this.poller?.stop();
+    this.poller = null;
+    await this._callNative(
+      () => AccessibilityServicesDetectorModule.stopListening(),
+      'E_STOP_LISTENING_FAILED'
+    );
+  }
+
+  private _startPolling(): void {
+    if (!this.poller) {
+      this.poller = new AccessibilityServicesPoller(
+        () =>
+          AccessibilityServicesDetectorModule.getEnabledAccessibilityServices(
+            this.iconOptions
+          ),
+        (services) =>
+          eventEmitter?.emit('AccessibilityServicesChanged', services),
+        this.pollingOptions
+      );
+    }
+    this.poller.start();
+  }
+
+  /**
+   * Log, or throw in strict mode, when called on a platform without native support
+   * @returns Whether the current platform is supported
+   */
+  private _ensurePlatformSupported(method: string): boolean {
+    if (Platform.OS === 'android') {
+      return true;
+    }
+    if (getConfiguration().strictMode) {
+      throw new UnsupportedPlatformError(Platform.OS, method);
+    }
+    log.debug(`${method} is not implemented on ${Platform.OS}`);
+    return false;
+  }
+
+  /**
+   * Convert a failure to an `AccessibilityDetectorError`, then throw it in
+   * strict mode or log it otherwise
+   */
+  private _handleError(
+    error: unknown,
+    fallbackCode: AccessibilityDetectorErrorCode,
+    message: string
+  ): void {
+    const detectorError = toAccessibilityDetectorError(error, fallbackCode);
+    if (getConfiguration().strictMode) {
+      throw detectorError;
+    }
+    log.error(message, detectorError);
+  }
+
+  /**
+   * Merge per-call icon options with the configured ones, returning the
+   * configured object itself when nothing differs so the cache can be used
+   */
+  private _resolveIconOptions(options: Partial<IconOptions>): IconOptions {
+    validateIconSize(options.iconSize);
+    const resolved = { ...this.iconOptions, ...options };
+    return resolved.includeIcons === this.iconOptions.includeIcons &&
+      resolved.iconSize === this.iconOptions.iconSize
+      ? this.iconOptions
+      : resolved;
+  }
+
+  /**
+   * Add the catalog metadata of a remote access app, keeping the values read from the device
+   */
+  private _withCatalogMetadata(app: RemoteAccessApp): RemoteAccessApp {
+    const entry = getRemoteAccessAppCatalogEntry(app.packageName);
+    if (!entry) {
+      return app;
+    }
+    return {
+      ...app,
+      appName: app.appName || entry.appName,
+      vendor: entry.vendor,
+      category: entry.category,
+      riskTier: entry.riskTier,
+      notes: entry.notes,
+    };
+  }
+
+  /**
+   * Call the native module, converting rejections to `AccessibilityDetectorError`s
+   */
+  private async _callNative<T>(
+    call: () => Promise<T>,
+    fallbackCode: AccessibilityDetectorErrorCode
+  ): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw toAccessibilityDetectorError(error, fallbackCode);
+    }
+  }
+
+  public openAccessibilitySettings(): void {
+    if (!this._ensurePlatformSupported('openAccessibilitySettings')) {
+      return;
+    }
+    AccessibilityServicesDetectorModule.openAccessibilitySettings();
+  }
+
+  /**
+   * Get the installed apps from the remote access app catalog and the custom
+   * packages declared at build time
+   * @param options - Icon options for this call, overriding the ones set with `setIconOptions()`.
+   * Calls with different options than those bypass the cache.
+   * @returns Promise resolving to the installed apps, with catalog metadata when available
+   */
+  public async getInstalledRemoteAccessApps(
+    options: Partial<IconOptions> = {}
+  ): Promise<RemoteAccessApp[]> {
+    if (!this._ensurePlatformSupported('getInstalledRemoteAccessApps')) {
+      return Promise.resolve([]);
+    }
+    const iconOptions = this._resolveIconOptions(options);
+    const load = async () => {
+      const apps = await this._callNative(
+        () =>
+          AccessibilityServicesDetectorModule.getInstalledRemoteAccessApps(
+            [...REMOTE_ACCESS_APP_PACKAGES, ...this.runtimePackages],
+            iconOptions
+          ),
+        'E_PACKAGE_QUERY_FAILED'
+      );
+      return apps.map((app) => this._withCatalogMetadata(app));
+    };
+    return iconOptions === this.iconOptions
+      ? this.cache.get('remoteAccessApps', load)
+      : load();
+  }
+
+  /**
+   * Detect extra remote access packages, e.g. from a remotely fetched list,
+   * in addition to the catalog and the custom packages declared at build time
+   *
+   * On Android 11+ a package is only visible if it is declared in the manifest
+   * `<queries>`; a warning is logged for registered packages that are not.
+   *
+   * @param packageNames - Package names to register
+   * @returns Promise resolving to the registered packages with their visibility
+   * @throws TypeError if a package name is invalid
+   *
+   * @example
+   * const packages = await AccessibilityServicesDetector.registerRemoteAccessPackages(
+   *   remoteConfig.remoteAccessPackages
+   * );
+   * const hidden = packages.filter((pkg) => !pkg.isQueryable);
+   */
+  public async registerRemoteAccessPackages(
+    packageNames: string[]
+  ): Promise<RemoteAccessPackage[]> {
+    validatePackageNames(packageNames);
+    if (!this._ensurePlatformSupported('registerRemoteAccessPackages')) {
+      return [];
+    }
+    packageNames.forEach((packageName) =>
+      this.runtimePackages.add(packageName)
+    );
+    this.cache.invalidate('remoteAccessApps');
+
+    const registered = (await this.getRemoteAccessPackages()).filter((pkg) =>
+      packageNames.includes(pkg.packageName)
+    );
+    const hidden = registered.filter(
+      (pkg) => pkg.source === 'runtime' && !pkg.isQueryable
+    );
+    if (hidden.length > 0) {
+      log.warn(
+        `${hidden.map((pkg) => pkg.packageName).join(', ')} cannot be detected on Android 11+ because it is not declared in the manifest <queries>. Add it to the customPackages build option.`
+      );
+    }
+    return registered;
+  }
+
+  /**
+   * Stop detecting packages registered with `registerRemoteAccessPackages()`
+   * @param packageNames - Package names to unregister
+   */
+  public unregisterRemoteAccessPackages(packageNames: string[]): void {
+    packageNames.forEach((packageName) =>
+      this.runtimePackages.delete(packageName)
+    );
+    this.cache.invalidate('remoteAccessApps');
+  }
+
+  /**
+   * Get every remote access package the detector looks for, with where it
+   * was declared and whether it can be seen on Android 11+
+   * @returns Promise resolving to the catalog, manifest and runtime packages
+   *
+   * @example
+   * const packages = await AccessibilityServicesDetector.getRemoteAccessPackages();
+   * const runtime = packages.filter((pkg) => pkg.source === 'runtime');
+   */
+  public async getRemoteAccessPackages(): Promise<RemoteAccessPackage[]> {
+    if (!this._ensurePlatformSupported('getRemoteAccessPackages')) {
+      return [];
+    }
+    const visibility = await this._callNative(
+      () => AccessibilityServicesDetectorModule.getPackageVisibility(),
+      'E_PACKAGE_QUERY_FAILED'
+    );
+    return resolveRemoteAccessPackages(
+      {
+        default: REMOTE_ACCESS_APP_PACKAGES,
+        manifest: visibility.manifestPackages,
+        runtime: [...this.runtimePackages],
+      },
+      visibility
+    );
+  }
+
+  /**
+   * Get the icon of an installed app, e.g. when results are loaded without icons
+   *
+   * Icons are kept in an in-memory LRU cache of the last 50 package and size pairs.
+   *
+   * @param packageName - Package of the app
+   * @param size - Width and height of the icon in pixels; the icon's own size when omitted
+   * @returns Promise resolving to a PNG data URL, or null if the app has no icon or is not visible
+   *
+   * @example
+   * const icon = await AccessibilityServicesDetector.getAppIcon(service.packageName, 48);
+   * if (icon) {
+   *   return <Image source={{ uri: icon }} style={{ width: 48, height: 48 }} />;
+   * }
+   */
+  public async getAppIcon(
+    packageName: string,
+    size: number | null = null
+  ): Promise<string | null> {
+    validateIconSize(size);
+    if (!this._ensurePlatformSupported('getAppIcon')) {
+      return null;
+    }
+    const key = `${packageName}@${size ?? 'original'}`;
+    if (this.iconCache.has(key)) {
+      return this.iconCache.get(key) ?? null;
+    }
+    const icon = await this._callNative(
+      () => AccessibilityServicesDetectorModule.getAppIcon(packageName, size),
+      'E_PACKAGE_QUERY_FAILED'
+    );
+    this.iconCache.set(key, icon);
+    return icon;
+  }
+
+  /**
+   * Drop the icons cached by `getAppIcon()`, e.g. after an app was updated
+   */
+  public clearIconCache(): void {
+    this.iconCache.clear();
+  }
+
+  /**
+   * Assess how risky the current device state is by combining enabled
+   * accessibility services and installed remote access apps
+   * @param options - Rules to evaluate instead of the default ones
+   * @returns Promise resolving to a risk report
+   *
+   * @example
+   * const report = await AccessibilityServicesDetector.assessRisk();
+   * if (report.level === 'critical') {
+   *   console.log(report.findings.map((finding) => finding.reason));
+   * }
+   */
+  public async assessRisk(
+    options: AssessRiskOptions = {}
+  ): Promise<RiskReport> {
+    const [services, remoteAccessApps] = await Promise.all([
+      this.getEnabledAccessibilityServices(),
+      this.getInstalledRemoteAccessApps(),
+    ]);
+    return evaluateRisk({ services, remoteAccessApps }, options.rules);
+  }
+}
+
+const AccessibilityServicesDetector =
+  new AccessibilityServicesDetectorWrapper();
+
+export default AccessibilityServicesDetector;
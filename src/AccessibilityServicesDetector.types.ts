@@ -1,3 +1,9 @@
+import type {
+  RemoteAccessAppCategory,
+  RemoteAccessRiskTier,
+} from './RemoteAccessAppCatalog';
+import type { Spec } from './NativeAccessibilityServicesDetector';
+
 // Define accessibility service feedback types
 export enum AccessibilityServiceFeedbackType {
   FEEDBACK_SPOKEN = 1,
@@ -9,6 +15,91 @@ export enum AccessibilityServiceFeedbackType {
   FEEDBACK_ALL_MASK = -1,
 }
 
+/**
+ * Feedback types of a service, combined with bitwise OR
+ * (e.g. `FEEDBACK_SPOKEN | FEEDBACK_HAPTIC` is `3`); decode it with `decodeFeedbackTypes()`
+ */
+export type FeedbackTypeMask = number;
+
+// Define accessibility event types a service listens to (AccessibilityEvent.TYPE_*)
+export enum AccessibilityServiceEventType {
+  TYPE_VIEW_CLICKED = 1,
+  TYPE_VIEW_LONG_CLICKED = 2,
+  TYPE_VIEW_SELECTED = 4,
+  TYPE_VIEW_FOCUSED = 8,
+  TYPE_VIEW_TEXT_CHANGED = 16,
+  TYPE_WINDOW_STATE_CHANGED = 32,
+  TYPE_NOTIFICATION_STATE_CHANGED = 64,
+  TYPE_VIEW_HOVER_ENTER = 128,
+  TYPE_VIEW_HOVER_EXIT = 256,
+  TYPE_TOUCH_EXPLORATION_GESTURE_START = 512,
+  TYPE_TOUCH_EXPLORATION_GESTURE_END = 1024,
+  TYPE_WINDOW_CONTENT_CHANGED = 2048,
+  TYPE_VIEW_SCROLLED = 4096,
+  TYPE_VIEW_TEXT_SELECTION_CHANGED = 8192,
+  TYPE_ANNOUNCEMENT = 16384,
+  TYPE_VIEW_ACCESSIBILITY_FOCUSED = 32768,
+  TYPE_VIEW_ACCESSIBILITY_FOCUS_CLEARED = 65536,
+  TYPE_VIEW_TEXT_TRAVERSED_AT_MOVEMENT_GRANULARITY = 131072,
+  TYPE_GESTURE_DETECTION_START = 262144,
+  TYPE_GESTURE_DETECTION_END = 524288,
+  TYPE_TOUCH_INTERACTION_START = 1048576,
+  TYPE_TOUCH_INTERACTION_END = 2097152,
+  TYPE_WINDOWS_CHANGED = 4194304,
+  TYPE_VIEW_CONTEXT_CLICKED = 8388608,
+  TYPE_ASSIST_READING_CONTEXT = 16777216,
+  TYPE_SPEECH_STATE_CHANGE = 33554432,
+  TYPE_VIEW_TARGETED_BY_SCROLL = 67108864,
+  TYPES_ALL_MASK = -1,
+}
+
+/**
+ * Event types a service listens to, combined with bitwise OR; decode it with `getEventTypeNames()`
+ */
+export type EventTypeMask = number;
+
+// Define accessibility service configuration flags (AccessibilityServiceInfo.FLAG_*)
+export enum AccessibilityServiceFlag {
+  DEFAULT = 1,
+  FLAG_INCLUDE_NOT_IMPORTANT_VIEWS = 2,
+  FLAG_REQUEST_TOUCH_EXPLORATION_MODE = 4,
+  FLAG_REQUEST_ENHANCED_WEB_ACCESSIBILITY = 8,
+  FLAG_REPORT_VIEW_IDS = 16,
+  FLAG_REQUEST_FILTER_KEY_EVENTS = 32,
+  FLAG_RETRIEVE_INTERACTIVE_WINDOWS = 64,
+  FLAG_ENABLE_ACCESSIBILITY_VOLUME = 128,
+  FLAG_REQUEST_ACCESSIBILITY_BUTTON = 256,
+  FLAG_REQUEST_FINGERPRINT_GESTURES = 512,
+  FLAG_REQUEST_SHORTCUT_WARNING_DIALOG_SPOKEN_FEEDBACK = 1024,
+  FLAG_SERVICE_HANDLES_DOUBLE_TAP = 2048,
+  FLAG_REQUEST_MULTI_FINGER_GESTURES = 4096,
+  FLAG_REQUEST_2_FINGER_PASSTHROUGH = 8192,
+  FLAG_SEND_MOTION_EVENTS = 16384,
+  FLAG_INPUT_METHOD_EDITOR = 32768,
+}
+
+/**
+ * Configuration flags of a service, combined with bitwise OR; decode it with `getFlagNames()`
+ */
+export type FlagMask = number;
+
+// Define capabilities granted to an accessibility service (AccessibilityServiceInfo.CAPABILITY_*)
+export enum AccessibilityServiceCapability {
+  CAPABILITY_CAN_RETRIEVE_WINDOW_CONTENT = 1,
+  CAPABILITY_CAN_REQUEST_TOUCH_EXPLORATION = 2,
+  CAPABILITY_CAN_REQUEST_ENHANCED_WEB_ACCESSIBILITY = 4,
+  CAPABILITY_CAN_REQUEST_FILTER_KEY_EVENTS = 8,
+  CAPABILITY_CAN_CONTROL_MAGNIFICATION = 16,
+  CAPABILITY_CAN_PERFORM_GESTURES = 32,
+  CAPABILITY_CAN_REQUEST_FINGERPRINT_GESTURES = 64,
+  CAPABILITY_CAN_TAKE_SCREENSHOT = 128,
+}
+
+/**
+ * Capabilities granted to a service, combined with bitwise OR; decode it with `getCapabilityNames()`
+ */
+export type CapabilityMask = number;
+
 // Define accessibility service information structure
 export interface AccessibilityServiceInfo {
   /** Unique identifier for the service (e.g., "com.example.app/.MyService") */
@@ -20,9 +111,29 @@ export interface AccessibilityServiceInfo {
   /** PNG data URL for the app icon (if available) */
   appIcon?: string;
   /** Feedback types supported by this service */
-  feedbackType: AccessibilityServiceFeedbackType;
-  /** Human-readable name for the feedback type */
-  feedbackTypeNames: string;
+  feedbackType: FeedbackTypeMask;
+  /** Names of the feedback types, e.g. `FEEDBACK_SPOKEN` */
+  feedbackTypeNames: string[];
+  /** Accessibility event types the service listens to */
+  eventTypes?: EventTypeMask;
+  /** Names of the event types, e.g. `TYPE_WINDOW_STATE_CHANGED` */
+  eventTypeNames?: string[];
+  /** Configuration flags of the service */
+  flags?: FlagMask;
+  /** Names of the flags, e.g. `FLAG_REQUEST_FILTER_KEY_EVENTS` */
+  flagNames?: string[];
+  /** Capabilities the service was granted */
+  capabilities?: CapabilityMask;
+  /** Names of the capabilities, e.g. `CAPABILITY_CAN_PERFORM_GESTURES` */
+  capabilityNames?: string[];
+  /** Whether the service can read the content of the active window */
+  canRetrieveWindowContent?: boolean;
+  /** Description the service shows in the accessibility settings */
+  description?: string;
+  /** Fully qualified class name of the service's settings activity */
+  settingsActivityName?: string;
+  /** Packages the service is limited to; empty when it targets all packages */
+  targetedPackageNames?: string[];
   /** Whether this service is an accessibility tool */
   isAccessibilityTool?: boolean;
   /** Whether this service is a system app */
@@ -35,51 +146,40 @@ export interface AccessibilityServiceInfo {
   sourceDir?: string;
 }
 
-// Define the native module interface
-export interface IAccessibilityServicesDetector {
+/**
+ * Controls the `appIcon` data URLs embedded in results
+ */
+export interface IconOptions {
   /**
-   * Get the list of currently enabled accessibility services
-   * @returns Promise resolving to Array of accessibility service information
+   * Embed each app's icon as a PNG data URL in `appIcon`
+   * @default true
    */
-  getEnabledAccessibilityServices(): Promise<AccessibilityServiceInfo[]>;
+  includeIcons: boolean;
   /**
-   * Check if any accessibility services are currently enabled
-   * @returns Promise resolving to Boolean indicating if any services are enabled
+   * Width and height of the embedded icons, in pixels; `null` keeps the
+   * icon's own size
+   * @default null
    */
-  hasEnabledAccessibilityServices(): Promise<boolean>;
-  addListener(): void;
-  removeListeners(): void;
-  /**
-   * Start listening for changes to accessibility services
-   * @returns Promise resolving when listening starts
-   */
-  startListening(): Promise<void>;
-  /**
-   * Stop listening for changes to accessibility services
-   * @returns Promise resolving when listening stops
-   */
-  stopListening(): Promise<void>;
-  /**
-   * Check if the detector is currently listening for changes
-   * @returns Boolean indicating if listening is active
-   */
-  getIsListening(): boolean;
-  /**
-   * Open the accessibility settings for a specific app
-   * @param packageName - The package name of the app to open the settings for
-   */
-  openAccessibilitySettings(): void;
-
-  /**
-   * Get the list of installed remote access apps
-   * @returns Promise resolving to Array of remote access app information
-   */
-  getInstalledRemoteAccessApps(): Promise<RemoteAccessApp[]>;
+  iconSize: number | null;
 }
 
+/**
+ * The native module, as declared by the codegen spec
+ * @deprecated Use `Spec` from the codegen spec; kept for existing imports
+ */
+export type IAccessibilityServicesDetector = Spec;
+
 export interface RemoteAccessApp {
   packageName: string;
   appName: string;
   /** PNG data URL for the app icon (if available) */
   appIcon?: string;
+  /** Publisher of the app, for apps in the remote access app catalog */
+  vendor?: string;
+  /** What the app is used for, for apps in the remote access app catalog */
+  category?: RemoteAccessAppCategory;
+  /** How much the app exposes this device, for apps in the remote access app catalog */
+  riskTier?: RemoteAccessRiskTier;
+  /** Why the app is in the remote access app catalog */
+  notes?: string;
 }
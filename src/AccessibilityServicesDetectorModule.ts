@@ -1,5 +1,9 @@
 import { NativeModules, Platform } from 'react-native';
-import type { IAccessibilityServicesDetector } from './AccessibilityServicesDetector.types';
+import { ModuleNotLinkedError } from './AccessibilityDetectorError';
+import { log } from './configuration';
+import NativeAccessibilityServicesDetector, {
+  type Spec,
+} from './NativeAccessibilityServicesDetector';
 
 const LINKING_ERROR =
   `The package 'react-native-accessibility-services-detector' doesn't seem to be linked. Make sure: \n\n` +
@@ -7,16 +11,18 @@ const LINKING_ERROR =
   '- You rebuilt the app after installing the package\n' +
   '- You are not using Expo Go\n';
 
-const AccessibilityServicesDetectorModule =
-  NativeModules.AccessibilityServicesDetector
-    ? NativeModules.AccessibilityServicesDetector
-    : (new Proxy(
-        {},
-        {
-          get() {
-            throw new Error(LINKING_ERROR);
-          },
-        }
-      ) as IAccessibilityServicesDetector);
+// The TurboModule on the New Architecture, the bridge module on older apps
+const AccessibilityServicesDetectorModule: Spec =
+  NativeAccessibilityServicesDetector ??
+  (NativeModules.AccessibilityServicesDetector as Spec | undefined) ??
+  (new Proxy(
+    {},
+    {
+      get() {
+        log.error(LINKING_ERROR);
+        throw new ModuleNotLinkedError(LINKING_ERROR);
+      },
+    }
+  ) as Spec);
 
-export default AccessibilityServicesDetectorModule as IAccessibilityServicesDetector;
+export default AccessibilityServicesDetectorModule;
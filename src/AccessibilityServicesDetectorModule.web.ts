@@ -0,0 +1,24 @@
+import type { Spec } from './NativeAccessibilityServicesDetector';
+
+/**
+ * Web implementation for react-native-web, where there is no native module.
+ * Browsers do not expose assistive technologies or installed apps; enabled
+ * services are read from `AccessibilityInfo` by the detector instead.
+ */
+const AccessibilityServicesDetectorModule: Spec = {
+  getEnabledAccessibilityServices: () => Promise.resolve([]),
+  hasEnabledAccessibilityServices: () => Promise.resolve(false),
+  startListening: () => Promise.resolve(),
+  stopListening: () => Promise.resolve(),
+  getIsListening: () => false,
+  openAccessibilitySettings: () => {},
+  getInstalledRemoteAccessApps: () => Promise.resolve([]),
+  getAppIcon: () => Promise.resolve(null),
+  setIconOptions: () => {},
+  getPackageVisibility: () =>
+    Promise.resolve({ manifestPackages: [], canQueryAllPackages: false }),
+  addListener: () => {},
+  removeListeners: () => {},
+};
+
+export default AccessibilityServicesDetectorModule;
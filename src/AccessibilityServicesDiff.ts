@@ -0,0 +1,69 @@
+import type { AccessibilityServiceInfo } from './AccessibilityServicesDetector.types';
+
+/**
+ * Difference between two lists of items, keyed on a unique identifier
+ */
+export interface SnapshotDiff<T> {
+  /** Items present in `current` but not in `previous` */
+  added: T[];
+  /** Items present in `previous` but not in `current` */
+  removed: T[];
+  /** Items present in both, as they appear in `current` */
+  unchanged: T[];
+  /** The earlier snapshot */
+  previous: T[];
+  /** The later snapshot */
+  current: T[];
+}
+
+/**
+ * Difference between two snapshots of enabled accessibility services, keyed on service `id`
+ */
+export type AccessibilityServicesDiff = SnapshotDiff<AccessibilityServiceInfo>;
+
+/**
+ * Compare two snapshots of any list of items
+ * @param previous - Earlier snapshot
+ * @param current - Later snapshot
+ * @param getKey - Returns the identifier items are matched on
+ */
+export function diffSnapshots<T>(
+  previous: T[],
+  current: T[],
+  getKey: (item: T) => string
+): SnapshotDiff<T> {
+  const previousKeys = new Set(previous.map(getKey));
+  const currentKeys = new Set(current.map(getKey));
+
+  return {
+    added: current.filter((item) => !previousKeys.has(getKey(item))),
+    removed: previous.filter((item) => !currentKeys.has(getKey(item))),
+    unchanged: current.filter((item) => previousKeys.has(getKey(item))),
+    previous,
+    current,
+  };
+}
+
+/**
+ * Whether anything was added or removed between the two snapshots
+ */
+export function hasSnapshotChanges<T>(diff: SnapshotDiff<T>): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0;
+}
+
+/**
+ * Compare two snapshots of enabled accessibility services
+ * @param previous - Services enabled before the change
+ * @param current - Services enabled after the change
+ * @returns Services added, removed and unchanged, keyed on `id`
+ *
+ * @example
+ * const diff = diffAccessibilityServices(before, after);
+ * diff.added.forEach((service) => console.log(`User enabled ${service.label}`));
+ */
+export function diffAccessibilityServices(
+  previous: AccessibilityServiceInfo[],
+  current: AccessibilityServiceInfo[]
+): AccessibilityServicesDiff {
+  return diffSnapshots(previous, current, (service) => service.id);
+}
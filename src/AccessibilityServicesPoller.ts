@@ -0,0 +1,159 @@
+import {
+  AppState,
+  type AppStateStatus,
+  type NativeEventSubscription,
+} from 'react-native';
+import type { AccessibilityServiceInfo } from './AccessibilityServicesDetector.types';
+import {
+  diffAccessibilityServices,
+  hasSnapshotChanges,
+} from './AccessibilityServicesDiff';
+import { InvalidArgumentError } from './AccessibilityDetectorError';
+import { log } from './configuration';
+
+/**
+ * How changes to accessibility services are currently being detected
+ * - `native`: the platform notifies the module (Android 13+)
+ * - `polling`: the JS layer periodically re-reads the enabled services
+ * - `none`: nothing is listening
+ */
+export type ListeningMode = 'native' | 'polling' | 'none';
+
+export interface PollingOptions {
+  /**
+   * Poll when native change events are unavailable (Android 12 and below)
+   * @default true
+   */
+  enabled: boolean;
+  /**
+   * Time between two checks, in milliseconds
+   * @default 5000
+   */
+  intervalMs: number;
+  /**
+   * Stop polling while the app is in the background and check immediately
+   * when it returns to the foreground
+   * @default true
+   */
+  pauseInBackground: boolean;
+}
+
+export const DEFAULT_POLLING_OPTIONS: PollingOptions = {
+  enabled: true,
+  intervalMs: 5000,
+  pauseInBackground: true,
+};
+
+/**
+ * Throws if the interval would make the poller call the native module in a tight loop
+ */
+export function validatePollingOptions(options: Partial<PollingOptions>): void {
+  const { intervalMs } = options;
+  if (
+    intervalMs !== undefined &&
+    (typeof intervalMs !== 'number' ||
+      !Number.isFinite(intervalMs) ||
+      intervalMs <= 0)
+  ) {
+    throw new InvalidArgumentError(
+      `intervalMs must be a finite positive number, got ${intervalMs}`
+    );
+  }
+}
+
+/**
+ * Periodically reads the enabled accessibility services and reports them
+ * whenever the set of service ids changes
+ */
+export class AccessibilityServicesPoller {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private appState: AppStateStatus = AppState.currentState;
+  private lastServices: AccessibilityServiceInfo[] | null = null;
+  private running = false;
+
+  constructor(
+    private readonly fetchServices: () => Promise<AccessibilityServiceInfo[]>,
+    private readonly onChange: (services: AccessibilityServiceInfo[]) => void,
+    private readonly options: PollingOptions
+  ) {
+    validatePollingOptions(options);
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.appState = AppState.currentState;
+    this.appStateSubscription = AppState.addEventListener(
+      'change',
+      this.handleAppStateChange
+    );
+
+    this.check();
+    if (!this.options.pauseInBackground || this.appState !== 'background') {
+      this.startTimer();
+    }
+  }
+
+  public stop(): void {
+    this.running = false;
+    this.stopTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.lastServices = null;
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus): void => {
+    const previousAppState = this.appState;
+    this.appState = nextAppState;
+    if (!this.options.pauseInBackground) {
+      return;
+    }
+
+    if (nextAppState === 'background') {
+      this.stopTimer();
+    } else if (nextAppState === 'active' && previousAppState !== 'active') {
+      this.check();
+      this.startTimer();
+    }
+  };
+
+  private startTimer(): void {
+    this.stopTimer();
+    this.timer = setInterval(() => this.check(), this.options.intervalMs);
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    try {
+      const services = await this.fetchServices();
+      if (!this.running) {
+        return;
+      }
+
+      const previous = this.lastServices;
+      this.lastServices = services;
+      // The first read only establishes the baseline
+      if (
+        previous &&
+        hasSnapshotChanges(diffAccessibilityServices(previous, services))
+      ) {
+        this.onChange(services);
+      }
+    } catch (error) {
+      log.warn('Failed to poll accessibility services:', error);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { AccessibilityInfo, Platform } from 'react-native';
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+} from './AccessibilityServicesDetector.types';
+import { log } from './configuration';
+
+export type AccessibilityInfoQuery =
+  | 'isScreenReaderEnabled'
+  | 'isBoldTextEnabled'
+  | 'isGrayscaleEnabled'
+  | 'isInvertColorsEnabled'
+  | 'isReduceMotionEnabled'
+  | 'isReduceTransparencyEnabled'
+  | 'isDarkerSystemColorsEnabled';
+
+interface AssistiveTechnology {
+  serviceName: string;
+  label: string;
+  /** Service name and label on the platforms that tell which technology runs */
+  platformNames?: Partial<
+    Record<string, { serviceName: string; label: string }>
+  >;
+  query: AccessibilityInfoQuery;
+  feedbackType: AccessibilityServiceFeedbackType;
+}
+
+/**
+ * Assistive technologies React Native reports through `AccessibilityInfo`,
+ * named after the iOS settings. Switch Control, Voice Control and Full
+ * Keyboard Access are not exposed to apps. Display settings such as bold
+ * text are not assistive technologies; they are reported by
+ * `readAccessibilitySettings()`.
+ */
+const ASSISTIVE_TECHNOLOGIES: readonly AssistiveTechnology[] = [
+  {
+    // react-native-web does not tell which screen reader is running
+    serviceName: 'screen-reader',
+    label: 'Screen reader',
+    platformNames: { ios: { serviceName: 'VoiceOver', label: 'VoiceOver' } },
+    query: 'isScreenReaderEnabled',
+    feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN,
+  },
+];
+
+/**
+ * Package name given to the assistive technologies, which belong to the system
+ */
+const SYSTEM_PACKAGE_NAMES: Record<string, string> = {
+  ios: 'com.apple.Accessibility',
+  web: 'web',
+};
+
+/**
+ * Read a boolean setting from `AccessibilityInfo`
+ * @returns `false` when the query is not implemented or fails
+ */
+export async function readAccessibilityInfo(
+  query: AccessibilityInfoQuery
+): Promise<boolean> {
+  // react-native-web and older React Native versions implement a subset of the queries
+  const read = AccessibilityInfo[query] as (() => Promise<boolean>) | undefined;
+  if (typeof read !== 'function') {
+    return false;
+  }
+  try {
+    return await read.call(AccessibilityInfo);
+  } catch (error) {
+    log.debug(`AccessibilityInfo.${query} failed:`, error);
+    return false;
+  }
+}
+
+function toServiceInfo(
+  technology: AssistiveTechnology,
+  packageName: string
+): AccessibilityServiceInfo {
+  const { serviceName, label } =
+    technology.platformNames?.[Platform.OS] ?? technology;
+  return {
+    id: `${packageName}/${serviceName}`,
+    label,
+    appLabel: 'Accessibility',
+    feedbackType: technology.feedbackType,
+    feedbackTypeNames: [
+      AccessibilityServiceFeedbackType[technology.feedbackType],
+    ],
+    isAccessibilityTool: true,
+    isSystemApp: true,
+    packageName,
+    serviceName,
+  };
+}
+
+/**
+ * Read the enabled assistive technologies exposed by `AccessibilityInfo`,
+ * in the shape of Android accessibility services. Used where the native
+ * module cannot list services, i.e. on iOS and the web.
+ *
+ * @example
+ * await getAssistiveTechnologies();
+ * // [{ id: 'com.apple.Accessibility/VoiceOver', label: 'VoiceOver', isSystemApp: true, ... }]
+ */
+export async function getAssistiveTechnologies(): Promise<
+  AccessibilityServiceInfo[]
+> {
+  const packageName = SYSTEM_PACKAGE_NAMES[Platform.OS] ?? Platform.OS;
+  const enabled = await Promise.all(
+    ASSISTIVE_TECHNOLOGIES.map((technology) =>
+      readAccessibilityInfo(technology.query)
+    )
+  );
+  return ASSISTIVE_TECHNOLOGIES.filter((_, index) => enabled[index]).map(
+    (technology) => toServiceInfo(technology, packageName)
+  );
+}
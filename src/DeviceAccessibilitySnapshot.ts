@@ -0,0 +1,282 @@
+import {
+  AccessibilityInfo,
+  AppState,
+  type AppStateStatus,
+  type EmitterSubscription,
+  type NativeEventSubscription,
+} from 'react-native';
+import type {
+  AccessibilityServiceInfo,
+  RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import {
+  type AccessibilityInfoQuery,
+  readAccessibilityInfo,
+} from './AssistiveTechnologies';
+import { log } from './configuration';
+
+/**
+ * Version of the `DeviceAccessibilitySnapshot` shape, bumped on breaking
+ * changes so stored or transmitted snapshots can be migrated
+ */
+export const DEVICE_ACCESSIBILITY_SNAPSHOT_VERSION = 1;
+
+/**
+ * Accessibility settings reported by React Native's `AccessibilityInfo`.
+ * Bold text, grayscale, invert colors, reduce transparency and increase
+ * contrast are only reported on iOS and are `false` elsewhere.
+ */
+export interface AccessibilitySettings {
+  /** VoiceOver on iOS, TalkBack or another screen reader on Android */
+  screenReaderEnabled: boolean;
+  reduceMotionEnabled: boolean;
+  boldTextEnabled: boolean;
+  grayscaleEnabled: boolean;
+  invertColorsEnabled: boolean;
+  reduceTransparencyEnabled: boolean;
+  /** Increase Contrast on iOS, reported as `isDarkerSystemColorsEnabled()` */
+  increaseContrastEnabled: boolean;
+}
+
+/**
+ * Everything the device reports about accessibility, as a plain object that
+ * can be serialized with `JSON.stringify()`
+ */
+export interface DeviceAccessibilitySnapshot {
+  /** Shape version, see `DEVICE_ACCESSIBILITY_SNAPSHOT_VERSION` */
+  version: typeof DEVICE_ACCESSIBILITY_SNAPSHOT_VERSION;
+  /** Platform the snapshot was captured on, as in `Platform.OS` */
+  platform: string;
+  /** When the snapshot was captured, in milliseconds since the epoch */
+  capturedAt: number;
+  /** Enabled accessibility services, without icons */
+  services: AccessibilityServiceInfo[];
+  /** Installed remote access apps, without icons; empty where they cannot be detected */
+  remoteAccessApps: RemoteAccessApp[];
+  /** Settings reported by `AccessibilityInfo` */
+  settings: AccessibilitySettings;
+}
+
+export interface DeviceSnapshotSubscription {
+  remove(): void;
+}
+
+/**
+ * The detector methods the snapshot watcher relies on
+ */
+export interface DeviceSnapshotSource {
+  getAccessibilitySnapshot(): Promise<DeviceAccessibilitySnapshot>;
+  addAccessibilityServicesListener(
+    callback: (services: AccessibilityServiceInfo[]) => void
+  ): Promise<EmitterSubscription | null>;
+}
+
+const ACCESSIBILITY_SETTINGS: readonly {
+  setting: keyof AccessibilitySettings;
+  query: AccessibilityInfoQuery;
+  event:
+    | 'screenReaderChanged'
+    | 'reduceMotionChanged'
+    | 'boldTextChanged'
+    | 'grayscaleChanged'
+    | 'invertColorsChanged'
+    | 'reduceTransparencyChanged'
+    | 'darkerSystemColorsChanged';
+}[] = [
+  {
+    setting: 'screenReaderEnabled',
+    query: 'isScreenReaderEnabled',
+    event: 'screenReaderChanged',
+  },
+  {
+    setting: 'reduceMotionEnabled',
+    query: 'isReduceMotionEnabled',
+    event: 'reduceMotionChanged',
+  },
+  {
+    setting: 'boldTextEnabled',
+    query: 'isBoldTextEnabled',
+    event: 'boldTextChanged',
+  },
+  {
+    setting: 'grayscaleEnabled',
+    query: 'isGrayscaleEnabled',
+    event: 'grayscaleChanged',
+  },
+  {
+    setting: 'invertColorsEnabled',
+    query: 'isInvertColorsEnabled',
+    event: 'invertColorsChanged',
+  },
+  {
+    setting: 'reduceTransparencyEnabled',
+    query: 'isReduceTransparencyEnabled',
+    event: 'reduceTransparencyChanged',
+  },
+  {
+    setting: 'increaseContrastEnabled',
+    query: 'isDarkerSystemColorsEnabled',
+    event: 'darkerSystemColorsChanged',
+  },
+];
+
+/**
+ * Read the accessibility settings reported by `AccessibilityInfo`
+ */
+export async function readAccessibilitySettings(): Promise<AccessibilitySettings> {
+  const values = await Promise.all(
+    ACCESSIBILITY_SETTINGS.map(({ query }) => readAccessibilityInfo(query))
+  );
+  const settings = {} as AccessibilitySettings;
+  ACCESSIBILITY_SETTINGS.forEach(({ setting }, index) => {
+    settings[setting] = values[index] ?? false;
+  });
+  return settings;
+}
+
+/**
+ * Whether two snapshots describe the same state, ignoring when they were captured
+ */
+export function isSameDeviceAccessibilitySnapshot(
+  a: DeviceAccessibilitySnapshot,
+  b: DeviceAccessibilitySnapshot
+): boolean {
+  return (
+    JSON.stringify({ ...a, capturedAt: 0 }) ===
+    JSON.stringify({ ...b, capturedAt: 0 })
+  );
+}
+
+/**
+ * Calls listeners with a new snapshot whenever any source changes: the
+ * accessibility services listener, the `AccessibilityInfo` events, and the
+ * app returning to the foreground, when remote access apps may have been
+ * installed or removed
+ *
+ * Sources are subscribed with the first listener and released with the
+ * last. Concurrent changes are coalesced into a single read, and listeners
+ * are only called when the snapshot differs from the last one.
+ */
+export class DeviceSnapshotWatcher {
+  private readonly listeners = new Set<
+    (snapshot: DeviceAccessibilitySnapshot) => void
+  >();
+  private subscriptions: (EmitterSubscription | NativeEventSubscription)[] = [];
+  private last: DeviceAccessibilitySnapshot | null = null;
+  private appState: AppStateStatus = AppState.currentState;
+  private refreshing = false;
+  private refreshQueued = false;
+  // Bumped on stop so a start still in progress does not resubscribe
+  private generation = 0;
+  // Shared by the listeners added while the sources are being subscribed
+  private starting: Promise<void> | null = null;
+
+  constructor(private readonly source: DeviceSnapshotSource) {}
+
+  public async addListener(
+    callback: (snapshot: DeviceAccessibilitySnapshot) => void
+  ): Promise<DeviceSnapshotSubscription> {
+    this.listeners.add(callback);
+    if (this.listeners.size === 1) {
+      const generation = this.generation;
+      this.starting = this.start().catch((error: unknown) => {
+        // Release the sources subscribed before the failure and drop every
+        // listener waiting on them, unless they were removed meanwhile
+        if (generation === this.generation) {
+          this.listeners.clear();
+          this.stop();
+        }
+        throw error;
+      });
+    }
+    await this.starting;
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+        if (this.listeners.size === 0) {
+          this.stop();
+        }
+      },
+    };
+  }
+
+  public isRunning(): boolean {
+    return this.subscriptions.length > 0;
+  }
+
+  private async start(): Promise<void> {
+    const generation = this.generation;
+    this.appState = AppState.currentState;
+    this.subscriptions = [
+      ...ACCESSIBILITY_SETTINGS.map(({ event }) =>
+        AccessibilityInfo.addEventListener(event, this.refresh)
+      ),
+      AppState.addEventListener('change', this.handleAppStateChange),
+    ];
+
+    const [last, servicesSubscription] = await Promise.all([
+      this.read(),
+      this.source.addAccessibilityServicesListener(this.refresh),
+    ]);
+    // The last listener was removed while starting
+    if (generation !== this.generation) {
+      servicesSubscription?.remove();
+      return;
+    }
+    this.last = last;
+    if (servicesSubscription) {
+      this.subscriptions.push(servicesSubscription);
+    }
+  }
+
+  private stop(): void {
+    this.generation++;
+    this.subscriptions.forEach((subscription) => subscription.remove());
+    this.subscriptions = [];
+    this.last = null;
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus): void => {
+    const previous = this.appState;
+    this.appState = nextAppState;
+    if (nextAppState === 'active' && previous !== 'active') {
+      this.refresh();
+    }
+  };
+
+  private refresh = (): void => {
+    if (this.refreshing) {
+      this.refreshQueued = true;
+      return;
+    }
+    this.refreshing = true;
+    this.check().finally(() => {
+      this.refreshing = false;
+      if (this.refreshQueued) {
+        this.refreshQueued = false;
+        this.refresh();
+      }
+    });
+  };
+
+  private async read(): Promise<DeviceAccessibilitySnapshot | null> {
+    try {
+      return await this.source.getAccessibilitySnapshot();
+    } catch (error) {
+      log.warn('Failed to read the accessibility snapshot:', error);
+      return null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    const current = await this.read();
+    if (!current || !this.isRunning()) {
+      return;
+    }
+    if (this.last && isSameDeviceAccessibilitySnapshot(this.last, current)) {
+      return;
+    }
+    this.last = current;
+    this.listeners.forEach((listener) => listener(current));
+  }
+}
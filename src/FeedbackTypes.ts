@@ -0,0 +1,102 @@
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type FeedbackTypeMask,
+} from './AccessibilityServicesDetector.types';
+import { decodeBitmask } from './bitmask';
+
+/**
+ * Labels for each feedback type, keyed on the enum member name
+ */
+export type FeedbackTypeLabels = Record<
+  Exclude<keyof typeof AccessibilityServiceFeedbackType, 'FEEDBACK_ALL_MASK'>,
+  string
+>;
+
+/**
+ * English labels used when no translation is given
+ */
+export const DEFAULT_FEEDBACK_TYPE_LABELS: Readonly<FeedbackTypeLabels> = {
+  FEEDBACK_SPOKEN: 'Spoken',
+  FEEDBACK_HAPTIC: 'Haptic',
+  FEEDBACK_AUDIBLE: 'Audible',
+  FEEDBACK_VISUAL: 'Visual',
+  FEEDBACK_GENERIC: 'Generic',
+  FEEDBACK_BRAILLE: 'Braille',
+};
+
+/**
+ * Feedback types set in a mask, lowest bit first
+ * @param mask - Feedback types bitmask, e.g. `service.feedbackType`
+ * @returns Enum members; every feedback type for `FEEDBACK_ALL_MASK`
+ *
+ * @example
+ * decodeFeedbackTypes(3);
+ * // [AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN, AccessibilityServiceFeedbackType.FEEDBACK_HAPTIC]
+ */
+export function decodeFeedbackTypes(
+  mask: FeedbackTypeMask
+): AccessibilityServiceFeedbackType[] {
+  return decodeBitmask(AccessibilityServiceFeedbackType, mask).map(
+    (name) =>
+      AccessibilityServiceFeedbackType[
+        name as keyof typeof AccessibilityServiceFeedbackType
+      ]
+  );
+}
+
+/**
+ * Whether a service provides a feedback type
+ * @param info - The accessibility service
+ * @param type - Feedback type to check; `FEEDBACK_ALL_MASK` matches any feedback
+ *
+ * @example
+ * const screenReaders = services.filter((service) =>
+ *   hasFeedback(service, AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN)
+ * );
+ */
+export function hasFeedback(
+  info: Pick<AccessibilityServiceInfo, 'feedbackType'>,
+  type: AccessibilityServiceFeedbackType
+): boolean {
+  // eslint-disable-next-line no-bitwise
+  return (info.feedbackType & type) !== 0;
+}
+
+/**
+ * Label of a single feedback type
+ * @param type - The feedback type
+ * @param labels - Translations overriding the English labels
+ */
+export function getFeedbackTypeLabel(
+  type: AccessibilityServiceFeedbackType,
+  labels: Partial<FeedbackTypeLabels> = {}
+): string {
+  const name = AccessibilityServiceFeedbackType[type] as
+    | keyof FeedbackTypeLabels
+    | undefined;
+  if (name === undefined || !(name in DEFAULT_FEEDBACK_TYPE_LABELS)) {
+    return String(type);
+  }
+  return labels[name] ?? DEFAULT_FEEDBACK_TYPE_LABELS[name];
+}
+
+/**
+ * Labels of the feedback types set in a mask, for display
+ * @param mask - Feedback types bitmask, e.g. `service.feedbackType`
+ * @param labels - Translations overriding the English labels
+ *
+ * @example
+ * getFeedbackTypeLabels(service.feedbackType, {
+ *   FEEDBACK_SPOKEN: t('feedback.spoken'),
+ *   FEEDBACK_HAPTIC: t('feedback.haptic'),
+ * }).join(', ');
+ */
+export function getFeedbackTypeLabels(
+  mask: FeedbackTypeMask,
+  labels: Partial<FeedbackTypeLabels> = {}
+): string[] {
+  return decodeFeedbackTypes(mask).map((type) =>
+    getFeedbackTypeLabel(type, labels)
+  );
+}
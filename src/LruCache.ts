@@ -0,0 +1,47 @@
+/**
+ * Map holding at most `capacity` entries, evicting the least recently used
+ * one when full
+ */
+export class LruCache<K, V> {
+  // Map iterates in insertion order, so the first key is the least recently used
+  private readonly entries = new Map<K, V>();
+
+  constructor(private readonly capacity: number) {}
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Get a value and mark it as the most recently used
+   */
+  public get(key: K): V | undefined {
+    if (!this.entries.has(key)) {
+      return undefined;
+    }
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  public set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.entries.delete(oldest.value);
+    }
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
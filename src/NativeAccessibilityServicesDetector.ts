@@ -0,0 +1,104 @@
+import { type TurboModule, TurboModuleRegistry } from 'react-native';
+
+/**
+ * Codegen spec of the native module: the typed contract between JS and the
+ * Android and iOS implementations. Types are declared here rather than
+ * imported, as codegen only reads this file.
+ */
+
+export type NativeIconOptions = {
+  includeIcons: boolean;
+  iconSize: number | null;
+};
+
+export type NativeAccessibilityServiceInfo = {
+  id: string;
+  label: string;
+  appLabel: string;
+  appIcon?: string;
+  feedbackType: number;
+  feedbackTypeNames: string[];
+  eventTypes?: number;
+  eventTypeNames?: string[];
+  flags?: number;
+  flagNames?: string[];
+  capabilities?: number;
+  capabilityNames?: string[];
+  canRetrieveWindowContent?: boolean;
+  description?: string;
+  settingsActivityName?: string;
+  targetedPackageNames?: string[];
+  isAccessibilityTool?: boolean;
+  isSystemApp: boolean;
+  packageName: string;
+  serviceName: string;
+  sourceDir?: string;
+};
+
+export type NativeRemoteAccessApp = {
+  packageName: string;
+  appName: string;
+  appIcon?: string;
+};
+
+export type NativePackageVisibility = {
+  manifestPackages: string[];
+  canQueryAllPackages: boolean;
+};
+
+export interface Spec extends TurboModule {
+  /**
+   * Get the list of currently enabled accessibility services
+   * @param options - Whether to embed icons, and at which size
+   */
+  getEnabledAccessibilityServices(
+    options: NativeIconOptions
+  ): Promise<NativeAccessibilityServiceInfo[]>;
+  /**
+   * Check if any accessibility services are currently enabled
+   */
+  hasEnabledAccessibilityServices(): Promise<boolean>;
+  /**
+   * Start emitting `AccessibilityServicesChanged` events (Android 13+)
+   */
+  startListening(): Promise<void>;
+  /**
+   * Stop emitting `AccessibilityServicesChanged` events
+   */
+  stopListening(): Promise<void>;
+  /**
+   * Check if the module is currently emitting change events
+   */
+  getIsListening(): boolean;
+  /**
+   * Open the system accessibility settings
+   */
+  openAccessibilitySettings(): void;
+  /**
+   * Get the installed apps among the given packages and the custom packages declared at build time
+   * @param packageNames - Packages to look for
+   * @param options - Whether to embed icons, and at which size
+   */
+  getInstalledRemoteAccessApps(
+    packageNames: string[],
+    options: NativeIconOptions
+  ): Promise<NativeRemoteAccessApp[]>;
+  /**
+   * Get the icon of an installed app as a PNG data URL, or null if it has none or is not visible
+   * @param packageName - Package of the app
+   * @param size - Width and height of the icon in pixels, or null for the icon's own size
+   */
+  getAppIcon(packageName: string, size: number | null): Promise<string | null>;
+  /**
+   * Set the icon options used for `AccessibilityServicesChanged` events
+   */
+  setIconOptions(options: NativeIconOptions): void;
+  /**
+   * Get the custom packages declared at build time and whether every package is visible
+   */
+  getPackageVisibility(): Promise<NativePackageVisibility>;
+  addListener(eventName: string): void;
+  removeListeners(count: number): void;
+}
+
+export default TurboModuleRegistry.get<Spec>('AccessibilityServicesDetector');
@@ -0,0 +1,113 @@
+/**
+ * How much of a feature the current platform can report
+ * - `full`: everything the method documents
+ * - `partial`: a subset, e.g. the assistive technologies React Native exposes on iOS
+ * - `none`: nothing; the method returns an empty result, or throws in strict mode
+ */
+export type CapabilitySupport = 'full' | 'partial' | 'none';
+
+/**
+ * What each part of the API can report on a platform, so shared code can
+ * tell "no services" from "unsupported"
+ */
+export interface PlatformCapabilities {
+  /** Platform the capabilities describe, as in `Platform.OS` */
+  platform: string;
+  /** `getEnabledAccessibilityServices()` and `hasEnabledAccessibilityServices()` */
+  enabledServices: CapabilitySupport;
+  /**
+   * Accessibility services listeners: `full` with native change events,
+   * `partial` through polling, which reports changes up to an interval late
+   */
+  changeEvents: CapabilitySupport;
+  /** `getInstalledRemoteAccessApps()` and the remote access package registry */
+  remoteAccessApps: CapabilitySupport;
+  /** `appIcon` data URLs and `getAppIcon()` */
+  appIcons: CapabilitySupport;
+  /** `openAccessibilitySettings()` */
+  accessibilitySettings: CapabilitySupport;
+}
+
+/**
+ * How the Android detector can observe changes to the enabled services
+ */
+export interface ChangeDetection {
+  /** Android API level, as in `Platform.Version` */
+  apiLevel: number;
+  /** Whether the polling fallback is enabled, see `setPollingOptions()` */
+  pollingEnabled: boolean;
+}
+
+/**
+ * First Android API level with AccessibilityServicesStateChangeListener (Android 13)
+ */
+export const NATIVE_LISTENING_MIN_API_LEVEL = 33;
+
+const PLATFORM_CAPABILITIES: Record<
+  string,
+  Omit<PlatformCapabilities, 'platform'>
+> = {
+  android: {
+    enabledServices: 'full',
+    changeEvents: 'full',
+    remoteAccessApps: 'full',
+    appIcons: 'full',
+    accessibilitySettings: 'full',
+  },
+  // Only the settings exposed by `AccessibilityInfo`, see getAssistiveTechnologies()
+  ios: {
+    enabledServices: 'partial',
+    changeEvents: 'none',
+    remoteAccessApps: 'none',
+    appIcons: 'none',
+    accessibilitySettings: 'none',
+  },
+  web: {
+    enabledServices: 'partial',
+    changeEvents: 'none',
+    remoteAccessApps: 'none',
+    appIcons: 'none',
+    accessibilitySettings: 'none',
+  },
+};
+
+const NO_CAPABILITIES: Omit<PlatformCapabilities, 'platform'> = {
+  enabledServices: 'none',
+  changeEvents: 'none',
+  remoteAccessApps: 'none',
+  appIcons: 'none',
+  accessibilitySettings: 'none',
+};
+
+function getAndroidChangeEvents({
+  apiLevel,
+  pollingEnabled,
+}: ChangeDetection): CapabilitySupport {
+  if (apiLevel >= NATIVE_LISTENING_MIN_API_LEVEL) {
+    return 'full';
+  }
+  return pollingEnabled ? 'partial' : 'none';
+}
+
+/**
+ * Describe what the detector can report on a platform
+ * @param platform - Platform to describe, as in `Platform.OS`
+ * @param changeDetection - On Android, what decides the change events support; assumed native when omitted
+ *
+ * @example
+ * getPlatformCapabilities('android', { apiLevel: 30, pollingEnabled: false });
+ * // { platform: 'android', enabledServices: 'full', changeEvents: 'none', ... }
+ */
+export function getPlatformCapabilities(
+  platform: string,
+  changeDetection?: ChangeDetection
+): PlatformCapabilities {
+  const capabilities = {
+    platform,
+    ...(PLATFORM_CAPABILITIES[platform] ?? NO_CAPABILITIES),
+  };
+  if (platform === 'android' && changeDetection) {
+    capabilities.changeEvents = getAndroidChangeEvents(changeDetection);
+  }
+  return capabilities;
+}
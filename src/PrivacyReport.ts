@@ -0,0 +1,183 @@
+import type {
+  AccessibilityServiceInfo,
+  RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import type {
+  AccessibilitySettings,
+  DeviceAccessibilitySnapshot,
+} from './DeviceAccessibilitySnapshot';
+import type {
+  RemoteAccessAppCategory,
+  RemoteAccessRiskTier,
+} from './RemoteAccessAppCatalog';
+import { hmacSha256 } from './sha256';
+
+/**
+ * Version of the `PrivacyReport` shape, bumped on breaking changes
+ */
+export const PRIVACY_REPORT_VERSION = 1;
+
+export interface PrivacyReportOptions {
+  /**
+   * Secret mixed into every hash, so hashes cannot be reversed by hashing
+   * every known package name. Use the same salt to hash the known-bad list.
+   */
+  salt: string;
+}
+
+/**
+ * An accessibility service without anything that identifies the app or the user
+ */
+export interface PrivateAccessibilityServiceInfo {
+  /** Salted hash of the service `id` */
+  idHash: string;
+  /** Salted hash of the `packageName` */
+  packageHash: string;
+  feedbackType: number;
+  feedbackTypeNames: string[];
+  capabilityNames?: string[];
+  canRetrieveWindowContent?: boolean;
+  isAccessibilityTool?: boolean;
+  isSystemApp: boolean;
+}
+
+/**
+ * A remote access app without anything that identifies it, except the
+ * coarse catalog metadata
+ */
+export interface PrivateRemoteAccessApp {
+  /** Salted hash of the `packageName` */
+  packageHash: string;
+  category?: RemoteAccessAppCategory;
+  riskTier?: RemoteAccessRiskTier;
+}
+
+/**
+ * A device accessibility snapshot safe to send to analytics: package names
+ * and service ids are salted hashes, and labels, icons and file paths are
+ * dropped
+ */
+export interface PrivacyReport {
+  /** Shape version, see `PRIVACY_REPORT_VERSION` */
+  version: typeof PRIVACY_REPORT_VERSION;
+  platform: string;
+  capturedAt: number;
+  services: PrivateAccessibilityServiceInfo[];
+  remoteAccessApps: PrivateRemoteAccessApp[];
+  settings: AccessibilitySettings;
+}
+
+/**
+ * Entries of a privacy report found in a list of hashes
+ */
+export interface PrivacyReportMatches {
+  services: PrivateAccessibilityServiceInfo[];
+  remoteAccessApps: PrivateRemoteAccessApp[];
+}
+
+function validateSalt(salt: string): void {
+  if (typeof salt !== 'string' || salt.length === 0) {
+    throw new TypeError('salt must be a non-empty string');
+  }
+}
+
+/**
+ * Salted hash of a package name or service id, as used in privacy reports
+ * @param value - Package name or service id
+ * @param salt - Salt of the privacy reports to match
+ * @returns HMAC-SHA256 of the value keyed with the salt, as lowercase hex
+ * @throws TypeError when the salt is empty
+ *
+ * @example
+ * // Build the known-bad list shipped with the app
+ * const knownBad = ['com.example.overlay', 'com.example.keylogger'].map((packageName) =>
+ *   hashIdentifier(packageName, salt)
+ * );
+ */
+export function hashIdentifier(value: string, salt: string): string {
+  validateSalt(salt);
+  return hmacSha256(salt, value);
+}
+
+function toPrivateService(
+  service: AccessibilityServiceInfo,
+  salt: string
+): PrivateAccessibilityServiceInfo {
+  return {
+    idHash: hmacSha256(salt, service.id),
+    packageHash: hmacSha256(salt, service.packageName),
+    feedbackType: service.feedbackType,
+    feedbackTypeNames: service.feedbackTypeNames,
+    capabilityNames: service.capabilityNames,
+    canRetrieveWindowContent: service.canRetrieveWindowContent,
+    isAccessibilityTool: service.isAccessibilityTool,
+    isSystemApp: service.isSystemApp,
+  };
+}
+
+function toPrivateApp(
+  app: RemoteAccessApp,
+  salt: string
+): PrivateRemoteAccessApp {
+  return {
+    packageHash: hmacSha256(salt, app.packageName),
+    category: app.category,
+    riskTier: app.riskTier,
+  };
+}
+
+/**
+ * Transform a snapshot into a report safe to send to analytics
+ * @param snapshot - Snapshot from `getAccessibilitySnapshot()`
+ * @param options - Salt of the hashes
+ * @throws TypeError when the salt is empty
+ *
+ * @example
+ * const report = createPrivacyReport(await getAccessibilitySnapshot(), { salt: ANALYTICS_SALT });
+ * analytics.track('accessibility_state', report);
+ */
+export function createPrivacyReport(
+  snapshot: DeviceAccessibilitySnapshot,
+  options: PrivacyReportOptions
+): PrivacyReport {
+  validateSalt(options.salt);
+  return {
+    version: PRIVACY_REPORT_VERSION,
+    platform: snapshot.platform,
+    capturedAt: snapshot.capturedAt,
+    services: snapshot.services.map((service) =>
+      toPrivateService(service, options.salt)
+    ),
+    remoteAccessApps: snapshot.remoteAccessApps.map((app) =>
+      toPrivateApp(app, options.salt)
+    ),
+    settings: snapshot.settings,
+  };
+}
+
+/**
+ * Find the services and remote access apps of a privacy report whose hashes
+ * are in a list, e.g. a known-bad list hashed with `hashIdentifier()`
+ * @param report - Report from `createPrivacyReport()`
+ * @param hashes - Package name or service id hashes, computed with the report's salt
+ *
+ * @example
+ * const { services, remoteAccessApps } = matchPrivacyReport(report, knownBad);
+ * if (services.length > 0 || remoteAccessApps.length > 0) {
+ *   blockPayment();
+ * }
+ */
+export function matchPrivacyReport(
+  report: PrivacyReport,
+  hashes: Iterable<string>
+): PrivacyReportMatches {
+  const known = new Set(hashes);
+  return {
+    services: report.services.filter(
+      (service) => known.has(service.packageHash) || known.has(service.idHash)
+    ),
+    remoteAccessApps: report.remoteAccessApps.filter((app) =>
+      known.has(app.packageHash)
+    ),
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Catalog of known remote access apps
+ *
+ * This is the single source of truth for the packages the library looks for:
+ * the Expo config plugin and `android/accessibility-queries.gradle` read it to
+ * generate the `<queries>` manifest entries, and the native module is given
+ * its package names at runtime. Keep this file free of runtime imports so the
+ * plugin can compile it, and keep `packageName` values as single-quoted
+ * string literals so the Gradle script can extract them.
+ */
+
+/**
+ * What a remote access app is used for
+ * - `screen-sharing`: mirrors or casts the screen to another device
+ * - `mdm`: mobile device management agent, may allow remote control by an administrator
+ * - `remote-support`: lets a supporter view or control this device
+ * - `remote-desktop-client`: VNC, RDP and other clients controlling other devices
+ */
+export type RemoteAccessAppCategory =
+  | 'screen-sharing'
+  | 'mdm'
+  | 'remote-support'
+  | 'remote-desktop-client';
+
+/**
+ * How much an installed app exposes the current device to remote control
+ */
+export type RemoteAccessRiskTier = 'low' | 'medium' | 'high';
+
+export interface RemoteAccessAppCatalogEntry {
+  /** Android package name */
+  packageName: string;
+  /** Name of the app as published, used when the label cannot be read from the device */
+  appName: string;
+  /** Publisher of the app */
+  vendor: string;
+  category: RemoteAccessAppCategory;
+  riskTier: RemoteAccessRiskTier;
+  /** Why the app is in the catalog */
+  notes?: string;
+  /**
+   * URL schemes registered by the iOS version of the app, added to
+   * `LSApplicationQueriesSchemes` by the Expo config plugin
+   */
+  iosUrlSchemes?: readonly string[];
+}
+
+export const REMOTE_ACCESS_APP_CATALOG: readonly RemoteAccessAppCatalogEntry[] =
+  [
+    {
+      packageName: 'com.teamviewer.teamviewer.market.mobile',
+      appName: 'TeamViewer Remote Control',
+      vendor: 'TeamViewer',
+      category: 'remote-desktop-client',
+      riskTier: 'low',
+      notes: 'Controls other devices; does not share this device on its own',
+    },
+    {
+      packageName: 'com.teamviewer.quicksupport.market',
+      appName: 'TeamViewer QuickSupport',
+      vendor: 'TeamViewer',
+      category: 'remote-support',
+      riskTier: 'high',
+      notes: 'Lets a supporter view and control this device',
+    },
+    {
+      packageName: 'com.teamviewer.host.market',
+      appName: 'TeamViewer Host',
+      vendor: 'TeamViewer',
+      category: 'remote-support',
+      riskTier: 'high',
+      notes: 'Provides unattended access to this device',
+    },
+    {
+      packageName: 'com.anydesk.anydeskandroid',
+      appName: 'AnyDesk',
+      vendor: 'AnyDesk Software',
+      category: 'remote-support',
+      riskTier: 'high',
+      notes: 'Can control other devices and be controlled remotely',
+      iosUrlSchemes: ['anydesk'],
+    },
+    {
+      packageName: 'com.rsupport.mvagent',
+      appName: 'RSUPPORT Mobile Agent',
+      vendor: 'RSUPPORT',
+      category: 'remote-support',
+      riskTier: 'high',
+      notes: 'Lets a supporter view and control this device',
+    },
+    {
+      packageName: 'com.airdroid.mirroring',
+      appName: 'AirDroid Mirroring',
+      vendor: 'Sand Studio',
+      category: 'screen-sharing',
+      riskTier: 'medium',
+    },
+    {
+      packageName: 'com.sand.aircast',
+      appName: 'AirDroid Cast',
+      vendor: 'Sand Studio',
+      category: 'screen-sharing',
+      riskTier: 'medium',
+      notes: 'Casts the screen of this device to another device',
+    },
+    {
+      packageName: 'com.sand.airmirror',
+      appName: 'AirMirror',
+      vendor: 'Sand Studio',
+      category: 'remote-desktop-client',
+      riskTier: 'low',
+      notes: 'Controls other devices running AirDroid',
+    },
+    {
+      packageName: 'com.sand.airsos',
+      appName: 'AirDroid Remote Support',
+      vendor: 'Sand Studio',
+      category: 'remote-support',
+      riskTier: 'high',
+      notes: 'Lets a supporter view and control this device',
+    },
+    {
+      packageName: 'com.sand.aircasttv',
+      appName: 'AirDroid Cast TV',
+      vendor: 'Sand Studio',
+      category: 'screen-sharing',
+      riskTier: 'low',
+      notes: 'Receives casts from other devices',
+    },
+    {
+      packageName: 'com.remotepc.viewer',
+      appName: 'RemotePC',
+      vendor: 'IDrive',
+      category: 'remote-desktop-client',
+      riskTier: 'low',
+    },
+    {
+      packageName: 'com.google.android.apps.chromeremotedesktop',
+      appName: 'Chrome Remote Desktop',
+      vendor: 'Google',
+      category: 'remote-desktop-client',
+      riskTier: 'low',
+    },
+    {
+      packageName: 'com.microsoft.rdc.android',
+      appName: 'Remote Desktop',
+      vendor: 'Microsoft',
+      category: 'remote-desktop-client',
+      riskTier: 'low',
+      notes: 'RDP client',
+      iosUrlSchemes: ['rdp'],
+    },
+    {
+      packageName: 'com.microsoft.intune',
+      appName: 'Microsoft Intune',
+      vendor: 'Microsoft',
+      category: 'mdm',
+      riskTier: 'medium',
+    },
+    {
+      packageName: 'com.realvnc.viewer.android',
+      appName: 'RealVNC Viewer',
+      vendor: 'RealVNC',
+      category: 'remote-desktop-client',
+      riskTier: 'low',
+      notes: 'VNC client',
+      iosUrlSchemes: ['vnc'],
+    },
+    {
+      packageName: 'com.iiordanov.bVNC',
+      appName: 'bVNC',
+      vendor: 'Iordan Iordanov',
+      category: 'remote-desktop-client',
+      riskTier: 'low',
+      notes: 'VNC client',
+    },
+    {
+      packageName: 'com.logmein.rescue.mobileconsole',
+      appName: 'LogMeIn Rescue Mobile Console',
+      vendor: 'GoTo',
+      category: 'remote-support',
+      riskTier: 'medium',
+    },
+    {
+      packageName: 'com.airwatch.rm.agent.cloud',
+      appName: 'Workspace ONE Assist',
+      vendor: 'Omnissa',
+      category: 'mdm',
+      riskTier: 'medium',
+      notes: 'Lets an administrator view and control managed devices',
+    },
+    {
+      packageName: 'com.splashtop.streamer.csrs',
+      appName: 'Splashtop Streamer',
+      vendor: 'Splashtop',
+      category: 'remote-support',
+      riskTier: 'high',
+      notes: 'Provides unattended access to this device',
+    },
+    {
+      packageName: 'com.splashtop.sos',
+      appName: 'Splashtop SOS',
+      vendor: 'Splashtop',
+      category: 'remote-support',
+      riskTier: 'high',
+      notes: 'Lets a supporter view and control this device',
+    },
+    {
+      packageName: 'net.soti.mobicontrol.androidwork',
+      appName: 'SOTI MobiControl',
+      vendor: 'SOTI',
+      category: 'mdm',
+      riskTier: 'medium',
+    },
+  ];
+
+/**
+ * Package names of every app in the catalog
+ */
+export const REMOTE_ACCESS_APP_PACKAGES: readonly string[] =
+  REMOTE_ACCESS_APP_CATALOG.map((entry) => entry.packageName);
+
+/**
+ * iOS URL schemes of every app in the catalog
+ */
+export const REMOTE_ACCESS_APP_IOS_URL_SCHEMES: readonly string[] =
+  REMOTE_ACCESS_APP_CATALOG.reduce<string[]>(
+    (schemes, entry) => schemes.concat(entry.iosUrlSchemes ?? []),
+    []
+  );
+
+/**
+ * Find the catalog entry of a package
+ * @param packageName - Android package name
+ * @returns The catalog entry, or `undefined` if the package is not in the catalog
+ */
+export function getRemoteAccessAppCatalogEntry(
+  packageName: string
+): RemoteAccessAppCatalogEntry | undefined {
+  return REMOTE_ACCESS_APP_CATALOG.find(
+    (entry) => entry.packageName === packageName
+  );
+}
@@ -0,0 +1,94 @@
+import { getPackageNameError } from './packageNames';
+
+/**
+ * Where a remote access package to detect was declared
+ * - `default`: the remote access app catalog
+ * - `manifest`: custom packages declared at build time in the manifest meta-data
+ * - `runtime`: packages registered with `registerRemoteAccessPackages()`
+ */
+export type RemoteAccessPackageSource = 'default' | 'manifest' | 'runtime';
+
+export interface RemoteAccessPackage {
+  /** Android package name */
+  packageName: string;
+  /** Where the package was declared; the first of `default`, `manifest` and `runtime` when declared in several */
+  source: RemoteAccessPackageSource;
+  /**
+   * Whether the package can be seen on Android 11+, i.e. the app can query
+   * all packages or the package is declared at build time
+   *
+   * Build-time packages are assumed to be in the manifest `<queries>`: the
+   * config plugin or Gradle script writes them there. In an app that applies
+   * neither, `default` and `manifest` packages are reported as queryable
+   * even though Android hides them.
+   */
+  isQueryable: boolean;
+}
+
+/**
+ * What the native module knows about package visibility
+ */
+export interface PackageVisibility {
+  /** Custom packages declared at build time in the manifest meta-data */
+  manifestPackages: string[];
+  /** Whether every package is visible: below Android 11, or with the QUERY_ALL_PACKAGES permission */
+  canQueryAllPackages: boolean;
+}
+
+/**
+ * Check that package names can be registered
+ * @param packageNames - Package names to check
+ * @throws TypeError naming the first invalid package name
+ */
+export function validatePackageNames(packageNames: readonly string[]): void {
+  if (!Array.isArray(packageNames)) {
+    throw new TypeError('packageNames must be an array of package names');
+  }
+  packageNames.forEach((packageName) => {
+    const error =
+      typeof packageName === 'string'
+        ? getPackageNameError(packageName)
+        : 'must be a string';
+    if (error) {
+      throw new TypeError(
+        `Invalid package name ${JSON.stringify(packageName)}: ${error}`
+      );
+    }
+  });
+}
+
+/**
+ * Combine the packages from every source into the effective list to detect
+ * @param sources - Package names by source
+ * @param visibility - Package visibility reported by the native module
+ * @returns Each package once, in the order default, manifest, runtime
+ *
+ * @example
+ * resolveRemoteAccessPackages(
+ *   { default: ['com.teamviewer.quicksupport.market'], manifest: [], runtime: ['com.example.remote'] },
+ *   { manifestPackages: [], canQueryAllPackages: false }
+ * );
+ * // [
+ * //   { packageName: 'com.teamviewer.quicksupport.market', source: 'default', isQueryable: true },
+ * //   { packageName: 'com.example.remote', source: 'runtime', isQueryable: false },
+ * // ]
+ */
+export function resolveRemoteAccessPackages(
+  sources: Record<RemoteAccessPackageSource, readonly string[]>,
+  visibility: PackageVisibility
+): RemoteAccessPackage[] {
+  const packages = new Map<string, RemoteAccessPackage>();
+  (['default', 'manifest', 'runtime'] as const).forEach((source) => {
+    sources[source].forEach((packageName) => {
+      if (!packages.has(packageName)) {
+        packages.set(packageName, {
+          packageName,
+          source,
+          // Assumes the config plugin or Gradle script wrote build-time packages to <queries>
+          isQueryable: visibility.canQueryAllPackages || source !== 'runtime',
+        });
+      }
+    });
+  });
+  return Array.from(packages.values());
+}
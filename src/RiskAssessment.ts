@@ -0,0 +1,350 @@
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import { classifyAccessibilityService } from './AccessibilityServiceFingerprints';
+import { hasFeedback } from './FeedbackTypes';
+
+/**
+ * Severity of a risk finding, ordered from least to most severe
+ */
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * All risk levels in ascending order of severity
+ */
+export const RISK_LEVELS: readonly RiskLevel[] = [
+  'none',
+  'low',
+  'medium',
+  'high',
+  'critical',
+];
+
+/**
+ * Device state a risk assessment is computed from
+ */
+export interface RiskAssessmentInput {
+  /** Currently enabled accessibility services */
+  services: AccessibilityServiceInfo[];
+  /** Installed remote access apps */
+  remoteAccessApps: RemoteAccessApp[];
+}
+
+/**
+ * A single reason why the device was considered risky
+ */
+export interface RiskFinding {
+  /** Identifier of the rule that produced this finding */
+  ruleId: string;
+  /** Severity of this finding */
+  level: RiskLevel;
+  /** Human-readable explanation of the finding */
+  reason: string;
+  /** Accessibility services that contributed to this finding */
+  services: AccessibilityServiceInfo[];
+  /** Remote access apps that contributed to this finding */
+  remoteAccessApps: RemoteAccessApp[];
+}
+
+/**
+ * What a rule reports back; the engine fills in the rule id
+ */
+export type RiskRuleResult = Omit<RiskFinding, 'ruleId'>;
+
+/**
+ * A pluggable rule evaluated by the risk engine
+ */
+export interface RiskRule {
+  /** Unique identifier of the rule, copied onto its findings */
+  id: string;
+  /**
+   * Skip all rules after this one when it produces a finding
+   * @default false
+   */
+  final?: boolean;
+  /**
+   * Inspect the device state and report zero or more findings
+   * @param input - Enabled services and installed remote access apps
+   * @returns A finding, a list of findings, or null when the rule does not apply
+   */
+  evaluate(
+    input: RiskAssessmentInput
+  ): RiskRuleResult | RiskRuleResult[] | null;
+}
+
+/**
+ * Result of a risk assessment
+ */
+export interface RiskReport {
+  /** Highest level across all findings, or `none` when there are no findings */
+  level: RiskLevel;
+  /** Findings in the order their rules were evaluated */
+  findings: RiskFinding[];
+  /** Unique services referenced by any finding */
+  services: AccessibilityServiceInfo[];
+  /** Unique remote access apps referenced by any finding */
+  remoteAccessApps: RemoteAccessApp[];
+  /** Timestamp (ms since epoch) at which the assessment was made */
+  assessedAt: number;
+}
+
+export interface AssessRiskOptions {
+  /**
+   * Rules to evaluate, in order
+   * @default defaultRiskRules
+   */
+  rules?: readonly RiskRule[];
+}
+
+/**
+ * Compare two risk levels by severity
+ * @returns A negative number if `a` is less severe than `b`, positive if more severe, 0 if equal
+ */
+export function compareRiskLevels(a: RiskLevel, b: RiskLevel): number {
+  return RISK_LEVELS.indexOf(a) - RISK_LEVELS.indexOf(b);
+}
+
+function isThirdPartyService(service: AccessibilityServiceInfo): boolean {
+  return !service.isSystemApp;
+}
+
+function isUnverifiedThirdPartyService(
+  service: AccessibilityServiceInfo
+): boolean {
+  return (
+    isThirdPartyService(service) &&
+    classifyAccessibilityService(service).verdict !== 'known-good'
+  );
+}
+
+/**
+ * Flags enabled services with a `known-bad` fingerprint
+ */
+export const knownBadServiceRule: RiskRule = {
+  id: 'known-bad-service',
+  evaluate({ services }) {
+    const matchedServices = services.filter(
+      (service) => classifyAccessibilityService(service).verdict === 'known-bad'
+    );
+    if (matchedServices.length === 0) {
+      return null;
+    }
+    return {
+      level: 'critical',
+      reason: 'A known malicious accessibility service is enabled',
+      services: matchedServices,
+      remoteAccessApps: [],
+    };
+  },
+};
+
+/**
+ * Flags enabled services owned by an installed remote access app, which allows
+ * the remote party to both see and drive the screen
+ */
+export const remoteControlServiceRule: RiskRule = {
+  id: 'remote-control-service',
+  evaluate({ services, remoteAccessApps }) {
+    const remotePackages = new Set(
+      remoteAccessApps.map((app) => app.packageName)
+    );
+    const matchedServices = services.filter((service) =>
+      remotePackages.has(service.packageName)
+    );
+    if (matchedServices.length === 0) {
+      return null;
+    }
+    const matchedPackages = new Set(
+      matchedServices.map((service) => service.packageName)
+    );
+    return {
+      level: 'critical',
+      reason:
+        'A remote access app has an enabled accessibility service and can control the device',
+      services: matchedServices,
+      remoteAccessApps: remoteAccessApps.filter((app) =>
+        matchedPackages.has(app.packageName)
+      ),
+    };
+  },
+};
+
+/**
+ * Flags third-party services that do not declare themselves as accessibility
+ * tools, unless their fingerprint is `known-good`
+ */
+export const untrustedServiceRule: RiskRule = {
+  id: 'untrusted-accessibility-service',
+  evaluate({ services }) {
+    const matchedServices = services.filter(
+      (service) =>
+        isUnverifiedThirdPartyService(service) && !service.isAccessibilityTool
+    );
+    if (matchedServices.length === 0) {
+      return null;
+    }
+    return {
+      level: 'high',
+      reason:
+        'A third-party accessibility service that is not an accessibility tool is enabled',
+      services: matchedServices,
+      remoteAccessApps: [],
+    };
+  },
+};
+
+/**
+ * Flags any installed remote access app, at the highest risk tier of the
+ * installed apps; apps missing from the catalog count as `high`
+ */
+export const remoteAccessAppRule: RiskRule = {
+  id: 'remote-access-app-installed',
+  evaluate({ remoteAccessApps }) {
+    if (remoteAccessApps.length === 0) {
+      return null;
+    }
+    return {
+      level: remoteAccessApps
+        .map((app): RiskLevel => app.riskTier ?? 'high')
+        .reduce((highest, level) =>
+          compareRiskLevels(level, highest) > 0 ? level : highest
+        ),
+      reason: 'A remote access app is installed',
+      services: [],
+      remoteAccessApps,
+    };
+  },
+};
+
+/**
+ * Flags third-party services that only provide generic feedback, which is
+ * typical for automation and overlay services rather than assistive
+ * technology, unless their fingerprint is `known-good`
+ */
+export const genericFeedbackRule: RiskRule = {
+  id: 'generic-feedback-service',
+  evaluate({ services }) {
+    const matchedServices = services.filter(
+      (service) =>
+        isUnverifiedThirdPartyService(service) &&
+        hasFeedback(
+          service,
+          AccessibilityServiceFeedbackType.FEEDBACK_GENERIC
+        ) &&
+        !hasFeedback(
+          service,
+          AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN
+        ) &&
+        !hasFeedback(service, AccessibilityServiceFeedbackType.FEEDBACK_BRAILLE)
+    );
+    if (matchedServices.length === 0) {
+      return null;
+    }
+    return {
+      level: 'medium',
+      reason:
+        'A third-party accessibility service provides generic feedback only',
+      services: matchedServices,
+      remoteAccessApps: [],
+    };
+  },
+};
+
+/**
+ * Notes third-party services that declare themselves as accessibility tools
+ */
+export const thirdPartyAccessibilityToolRule: RiskRule = {
+  id: 'third-party-accessibility-tool',
+  evaluate({ services }) {
+    const matchedServices = services.filter(
+      (service) => isThirdPartyService(service) && service.isAccessibilityTool
+    );
+    if (matchedServices.length === 0) {
+      return null;
+    }
+    return {
+      level: 'low',
+      reason: 'A third-party accessibility tool is enabled',
+      services: matchedServices,
+      remoteAccessApps: [],
+    };
+  },
+};
+
+/**
+ * Rules used by `assessRisk()` when none are given
+ */
+export const defaultRiskRules: readonly RiskRule[] = [
+  knownBadServiceRule,
+  remoteControlServiceRule,
+  untrustedServiceRule,
+  remoteAccessAppRule,
+  genericFeedbackRule,
+  thirdPartyAccessibilityToolRule,
+];
+
+function uniqueBy<T>(items: T[], getKey: (item: T) => string): T[] {
+  const seen = new Map<string, T>();
+  items.forEach((item) => {
+    const key = getKey(item);
+    if (!seen.has(key)) {
+      seen.set(key, item);
+    }
+  });
+  return [...seen.values()];
+}
+
+/**
+ * Evaluate rules against a known device state
+ * @param input - Enabled services and installed remote access apps
+ * @param rules - Rules to evaluate, in order
+ * @returns Risk report combining the findings of every rule
+ *
+ * @example
+ * const report = evaluateRisk({ services, remoteAccessApps: [] });
+ * if (report.level === 'high' || report.level === 'critical') {
+ *   // block the payment screen
+ * }
+ */
+export function evaluateRisk(
+  input: RiskAssessmentInput,
+  rules: readonly RiskRule[] = defaultRiskRules
+): RiskReport {
+  const findings: RiskFinding[] = [];
+
+  for (const rule of rules) {
+    const result = rule.evaluate(input);
+    if (!result) {
+      continue;
+    }
+    const results = Array.isArray(result) ? result : [result];
+    results.forEach((finding) =>
+      findings.push({ ...finding, ruleId: rule.id })
+    );
+    if (rule.final && results.length > 0) {
+      break;
+    }
+  }
+
+  const level = findings.reduce<RiskLevel>(
+    (highest, finding) =>
+      compareRiskLevels(finding.level, highest) > 0 ? finding.level : highest,
+    'none'
+  );
+
+  return {
+    level,
+    findings,
+    services: uniqueBy(
+      findings.flatMap((finding) => finding.services),
+      (service) => service.id
+    ),
+    remoteAccessApps: uniqueBy(
+      findings.flatMap((finding) => finding.remoteAccessApps),
+      (app) => app.packageName
+    ),
+    assessedAt: Date.now(),
+  };
+}
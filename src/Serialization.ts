@@ -0,0 +1,301 @@
+import type {
+  AccessibilityServiceInfo,
+  RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import type { DeviceAccessibilitySnapshot } from './DeviceAccessibilitySnapshot';
+import type { PrivacyReport } from './PrivacyReport';
+import type { RiskFinding, RiskReport } from './RiskAssessment';
+import { hmacSha256, sha256 } from './sha256';
+
+/**
+ * Version of the wire format produced by `serializeSnapshot()` and
+ * `serializeRiskReport()`, bumped on breaking changes
+ */
+export const SERIALIZATION_FORMAT_VERSION = 1;
+
+/**
+ * What a serialized payload contains
+ */
+export type SerializedPayloadType =
+  | 'accessibilitySnapshot'
+  | 'riskReport'
+  | 'privacyReport';
+
+/**
+ * Envelope written by the serializers, as parsed by a backend
+ */
+export interface SerializedPayload<T> {
+  /** What `data` contains */
+  type: SerializedPayloadType;
+  /** Wire format version, see `SERIALIZATION_FORMAT_VERSION` */
+  version: typeof SERIALIZATION_FORMAT_VERSION;
+  /** Whether package names in `data` are SHA-256 hex digests */
+  hashedPackageNames: boolean;
+  /** The snapshot, risk report or privacy report, without icons */
+  data: T;
+}
+
+export interface SerializeOptions {
+  /**
+   * Replace package names, service names, service ids, labels and app names
+   * with their SHA-256 hex digest, and drop `sourceDir`,
+   * `settingsActivityName`, `description`, `vendor` and `notes`, which
+   * contain or reveal them
+   * @default false
+   */
+  hashPackageNames: boolean;
+}
+
+export const DEFAULT_SERIALIZE_OPTIONS: SerializeOptions = {
+  hashPackageNames: false,
+};
+
+/**
+ * Computes the signature of a serialized payload, e.g. with a key kept in
+ * the Android Keystore
+ * @returns The signature, in any encoding the backend expects
+ */
+export type PayloadSigner = (payload: string) => string | Promise<string>;
+
+/**
+ * A serialized payload with its signature
+ */
+export interface SignedPayload {
+  /** The serialized payload, exactly as signed */
+  payload: string;
+  /** The signature of `payload` */
+  signature: string;
+  /** `HMAC-SHA256` when signed with a key, `custom` when signed by a `PayloadSigner` */
+  algorithm: 'HMAC-SHA256' | 'custom';
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level, so
+ * equal values always produce the same string
+ *
+ * Properties set to `undefined` are left out, as with `JSON.stringify()`.
+ * @throws TypeError for values JSON cannot represent faithfully: non-finite numbers, functions, bigints and symbols
+ *
+ * @example
+ * canonicalJson({ b: 1, a: [true, { d: null, c: 'x' }] });
+ * // '{"a":[true,{"c":"x","d":null}],"b":1}'
+ */
+export function canonicalJson(value: unknown): string {
+  if (
+    value === null ||
+    typeof value === 'boolean' ||
+    typeof value === 'string'
+  ) {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`Cannot serialize the number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    const members = Object.keys(object)
+      .sort()
+      .filter((key) => object[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(object[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  throw new TypeError(`Cannot serialize a value of type ${typeof value}`);
+}
+
+function withoutIcon<T extends { appIcon?: string }>({
+  appIcon: _appIcon,
+  ...rest
+}: T): Omit<T, 'appIcon'> {
+  return rest;
+}
+
+// Both contain the package name, and the description names the app
+function withoutPathsAndDescription({
+  sourceDir: _sourceDir,
+  settingsActivityName: _settingsActivityName,
+  description: _description,
+  ...rest
+}: AccessibilityServiceInfo): AccessibilityServiceInfo {
+  return rest;
+}
+
+// Catalog metadata that identifies the app; category and risk tier are kept
+function withoutVendorAndNotes({
+  vendor: _vendor,
+  notes: _notes,
+  ...rest
+}: RemoteAccessApp): RemoteAccessApp {
+  return rest;
+}
+
+function serializeService(
+  service: AccessibilityServiceInfo,
+  options: SerializeOptions
+): AccessibilityServiceInfo {
+  if (!options.hashPackageNames) {
+    return withoutIcon(service);
+  }
+  return {
+    ...withoutIcon(withoutPathsAndDescription(service)),
+    id: sha256(service.id),
+    label: sha256(service.label),
+    appLabel: sha256(service.appLabel),
+    packageName: sha256(service.packageName),
+    serviceName: sha256(service.serviceName),
+    targetedPackageNames: service.targetedPackageNames?.map(sha256),
+  };
+}
+
+function serializeApp(
+  app: RemoteAccessApp,
+  options: SerializeOptions
+): RemoteAccessApp {
+  return options.hashPackageNames
+    ? {
+        ...withoutIcon(withoutVendorAndNotes(app)),
+        packageName: sha256(app.packageName),
+        appName: sha256(app.appName),
+      }
+    : withoutIcon(app);
+}
+
+function serializeFinding(
+  finding: RiskFinding,
+  options: SerializeOptions
+): RiskFinding {
+  return {
+    ...finding,
+    services: finding.services.map((service) =>
+      serializeService(service, options)
+    ),
+    remoteAccessApps: finding.remoteAccessApps.map((app) =>
+      serializeApp(app, options)
+    ),
+  };
+}
+
+function serialize<T>(
+  type: SerializedPayloadType,
+  data: T,
+  options: SerializeOptions
+): string {
+  const payload: SerializedPayload<T> = {
+    type,
+    version: SERIALIZATION_FORMAT_VERSION,
+    hashedPackageNames: options.hashPackageNames,
+    data,
+  };
+  return canonicalJson(payload);
+}
+
+/**
+ * Serialize a device accessibility snapshot to canonical JSON for a backend
+ * @param snapshot - Snapshot from `getAccessibilitySnapshot()`
+ * @param options - Whether to hash package names
+ * @returns A `SerializedPayload` envelope as canonical JSON, without icons
+ *
+ * @example
+ * const payload = serializeSnapshot(await getAccessibilitySnapshot(), { hashPackageNames: true });
+ */
+export function serializeSnapshot(
+  snapshot: DeviceAccessibilitySnapshot,
+  options: Partial<SerializeOptions> = {}
+): string {
+  const resolved = { ...DEFAULT_SERIALIZE_OPTIONS, ...options };
+  return serialize<DeviceAccessibilitySnapshot>(
+    'accessibilitySnapshot',
+    {
+      ...snapshot,
+      services: snapshot.services.map((service) =>
+        serializeService(service, resolved)
+      ),
+      remoteAccessApps: snapshot.remoteAccessApps.map((app) =>
+        serializeApp(app, resolved)
+      ),
+    },
+    resolved
+  );
+}
+
+/**
+ * Serialize a risk report to canonical JSON for a backend
+ * @param report - Report from `assessRisk()`
+ * @param options - Whether to hash package names
+ * @returns A `SerializedPayload` envelope as canonical JSON, without icons
+ */
+export function serializeRiskReport(
+  report: RiskReport,
+  options: Partial<SerializeOptions> = {}
+): string {
+  const resolved = { ...DEFAULT_SERIALIZE_OPTIONS, ...options };
+  return serialize<RiskReport>(
+    'riskReport',
+    {
+      ...report,
+      findings: report.findings.map((finding) =>
+        serializeFinding(finding, resolved)
+      ),
+      services: report.services.map((service) =>
+        serializeService(service, resolved)
+      ),
+      remoteAccessApps: report.remoteAccessApps.map((app) =>
+        serializeApp(app, resolved)
+      ),
+    },
+    resolved
+  );
+}
+
+/**
+ * Serialize a privacy report to canonical JSON for a backend
+ * @param report - Report from `createPrivacyReport()`, whose identifiers are already hashed
+ * @returns A `SerializedPayload` envelope as canonical JSON
+ */
+export function serializePrivacyReport(report: PrivacyReport): string {
+  return serialize<PrivacyReport>('privacyReport', report, {
+    hashPackageNames: true,
+  });
+}
+
+/**
+ * Sign a serialized payload so a backend can check it was not modified in transit
+ * @param payload - Output of `serializeSnapshot()` or `serializeRiskReport()`
+ * @param signer - HMAC-SHA256 key shared with the backend, or a function computing the signature
+ * @returns The payload with its signature; an HMAC-SHA256 signature is lowercase hex
+ * @throws TypeError when the key is empty or the signer does not return a non-empty string
+ *
+ * @example
+ * const signed = await signPayload(serializeSnapshot(snapshot), sessionKey);
+ * await fetch(url, {
+ *   method: 'POST',
+ *   headers: { 'X-Signature': signed.signature },
+ *   body: signed.payload,
+ * });
+ */
+export async function signPayload(
+  payload: string,
+  signer: string | PayloadSigner
+): Promise<SignedPayload> {
+  if (typeof signer === 'string') {
+    if (signer.length === 0) {
+      throw new TypeError('The signing key must not be empty');
+    }
+    return {
+      payload,
+      signature: hmacSha256(signer, payload),
+      algorithm: 'HMAC-SHA256',
+    };
+  }
+
+  const signature = await signer(payload);
+  if (typeof signature !== 'string' || signature.length === 0) {
+    throw new TypeError('The payload signer must return a non-empty string');
+  }
+  return { payload, signature, algorithm: 'custom' };
+}
@@ -0,0 +1,285 @@
+import {
+  AppState,
+  type AppStateStatus,
+  type NativeEventSubscription,
+} from 'react-native';
+import type {
+  AccessibilityServiceInfo,
+  RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+import { log } from './configuration';
+
+/**
+ * Minimal key-value storage used to persist the last snapshot between
+ * launches; `@react-native-async-storage/async-storage` and MMKV wrappers
+ * fit this shape
+ */
+export interface SnapshotStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export interface CacheOptions {
+  /**
+   * Serve repeated reads from memory until they expire
+   * @default false
+   */
+  enabled: boolean;
+  /**
+   * How long a read stays valid, in milliseconds
+   * @default 30000
+   */
+  ttlMs: number;
+  /**
+   * Where to persist the last snapshot so it can be compared on the next launch
+   * @default null
+   */
+  storage: SnapshotStorage | null;
+  /**
+   * Key of the persisted snapshot in the storage
+   * @default 'react-native-accessibility-services-detector:snapshot'
+   */
+  storageKey: string;
+}
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  enabled: false,
+  ttlMs: 30000,
+  storage: null,
+  storageKey: 'react-native-accessibility-services-detector:snapshot',
+};
+
+/**
+ * Last state read by the detector, as persisted in the storage
+ */
+export interface AccessibilitySnapshot {
+  /** Enabled accessibility services without their icons, if they were read */
+  services?: AccessibilityServiceInfo[];
+  /** Installed remote access apps without their icons, if they were read */
+  remoteAccessApps?: RemoteAccessApp[];
+  /** When the snapshot was last written, in milliseconds since the epoch */
+  savedAt: number;
+}
+
+interface SnapshotValues {
+  services: AccessibilityServiceInfo[];
+  remoteAccessApps: RemoteAccessApp[];
+}
+
+type SnapshotKey = keyof SnapshotValues;
+
+interface CacheEntry<T> {
+  value: T;
+  cachedAt: number;
+}
+
+function isSnapshot(value: unknown): value is AccessibilitySnapshot {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const snapshot = value as Record<string, unknown>;
+  return (
+    typeof snapshot.savedAt === 'number' &&
+    (snapshot.services === undefined || Array.isArray(snapshot.services)) &&
+    (snapshot.remoteAccessApps === undefined ||
+      Array.isArray(snapshot.remoteAccessApps))
+  );
+}
+
+// Icons are large data URLs and are not needed to compare snapshots
+function withoutIcon<T extends { appIcon?: string }>({
+  appIcon: _appIcon,
+  ...rest
+}: T): Omit<T, 'appIcon'> {
+  return rest;
+}
+
+/**
+ * Caches the enabled services and installed remote access apps in memory,
+ * and persists the last values read to an optional storage
+ *
+ * Entries expire after `ttlMs` and whenever the app state changes, since
+ * services and apps are usually changed from another app. Concurrent reads
+ * of the same value share a single native call.
+ */
+export class SnapshotCache {
+  private options: CacheOptions = { ...DEFAULT_CACHE_OPTIONS };
+  private entries: Partial<
+    Record<SnapshotKey, CacheEntry<SnapshotValues[SnapshotKey]>>
+  > = {};
+  private pending: Partial<
+    Record<SnapshotKey, Promise<SnapshotValues[SnapshotKey]>>
+  > = {};
+  // Bumped on invalidation so reads started before it are not cached
+  private generations: Record<SnapshotKey, number> = {
+    services: 0,
+    remoteAccessApps: 0,
+  };
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private appState: AppStateStatus = AppState.currentState;
+  private previousSnapshot: Promise<AccessibilitySnapshot | null> | null = null;
+  private persisted: Omit<AccessibilitySnapshot, 'savedAt'> = {};
+
+  public getOptions(): Readonly<CacheOptions> {
+    return this.options;
+  }
+
+  public setOptions(options: Partial<CacheOptions>): void {
+    const previous = this.options;
+    this.options = { ...previous, ...options };
+
+    if (
+      this.options.storage !== previous.storage ||
+      this.options.storageKey !== previous.storageKey
+    ) {
+      this.previousSnapshot = null;
+      this.persisted = {};
+    }
+
+    if (this.options.enabled && !this.appStateSubscription) {
+      this.appState = AppState.currentState;
+      this.appStateSubscription = AppState.addEventListener(
+        'change',
+        this.handleAppStateChange
+      );
+    } else if (!this.options.enabled) {
+      this.appStateSubscription?.remove();
+      this.appStateSubscription = null;
+      this.invalidate();
+    }
+  }
+
+  /**
+   * Get a value from the cache, or load it if it is missing or expired
+   * @param key - Value to get
+   * @param load - Reads the value from the device
+   */
+  public async get<K extends SnapshotKey>(
+    key: K,
+    load: () => Promise<SnapshotValues[K]>
+  ): Promise<SnapshotValues[K]> {
+    if (this.options.enabled) {
+      const entry = this.entries[key];
+      if (entry && Date.now() - entry.cachedAt < this.options.ttlMs) {
+        log.debug(`Serving ${key} from the cache`);
+        return entry.value as SnapshotValues[K];
+      }
+      const pending = this.pending[key];
+      if (pending) {
+        return pending as Promise<SnapshotValues[K]>;
+      }
+    }
+
+    const generation = this.generations[key];
+    const request = load()
+      .then((value) => {
+        if (generation === this.generations[key]) {
+          this.store(key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.pending[key] === request) {
+          delete this.pending[key];
+        }
+      });
+    if (this.options.enabled) {
+      this.pending[key] = request;
+    }
+    return request;
+  }
+
+  /**
+   * Replace a value with one received from a change event
+   */
+  public set<K extends SnapshotKey>(key: K, value: SnapshotValues[K]): void {
+    this.generations[key]++;
+    delete this.pending[key];
+    this.store(key, value);
+  }
+
+  /**
+   * Drop cached values so the next reads go to the device
+   * @param key - Value to drop; every value when omitted
+   */
+  public invalidate(key?: SnapshotKey): void {
+    const keys: SnapshotKey[] = key ? [key] : ['services', 'remoteAccessApps'];
+    keys.forEach((k) => {
+      this.generations[k]++;
+      delete this.entries[k];
+      delete this.pending[k];
+    });
+  }
+
+  /**
+   * Read the snapshot persisted by the previous launch, before this launch
+   * overwrites it
+   */
+  public getPreviousSnapshot(): Promise<AccessibilitySnapshot | null> {
+    if (!this.previousSnapshot) {
+      this.previousSnapshot = this.readStorage();
+    }
+    return this.previousSnapshot;
+  }
+
+  private handleAppStateChange = (nextAppState: AppStateStatus): void => {
+    if (nextAppState !== this.appState) {
+      this.appState = nextAppState;
+      this.invalidate();
+    }
+  };
+
+  private store<K extends SnapshotKey>(key: K, value: SnapshotValues[K]): void {
+    if (this.options.enabled) {
+      this.entries[key] = { value, cachedAt: Date.now() };
+    }
+    this.persist(key, value);
+  }
+
+  private async readStorage(): Promise<AccessibilitySnapshot | null> {
+    const { storage, storageKey } = this.options;
+    if (!storage) {
+      return null;
+    }
+    try {
+      const json = await storage.getItem(storageKey);
+      if (json === null) {
+        return null;
+      }
+      const snapshot: unknown = JSON.parse(json);
+      if (!isSnapshot(snapshot)) {
+        log.warn('Ignoring a malformed persisted snapshot');
+        return null;
+      }
+      return snapshot;
+    } catch (error) {
+      log.warn('Failed to read the persisted snapshot:', error);
+      return null;
+    }
+  }
+
+  private async persist<K extends SnapshotKey>(
+    key: K,
+    value: SnapshotValues[K]
+  ): Promise<void> {
+    const { storage, storageKey } = this.options;
+    if (!storage) {
+      return;
+    }
+    this.persisted[key] = (value as { appIcon?: string }[]).map(
+      withoutIcon
+    ) as SnapshotValues[K];
+    try {
+      const previous = await this.getPreviousSnapshot();
+      const snapshot: AccessibilitySnapshot = {
+        services: previous?.services,
+        remoteAccessApps: previous?.remoteAccessApps,
+        ...this.persisted,
+        savedAt: Date.now(),
+      };
+      await storage.setItem(storageKey, JSON.stringify(snapshot));
+    } catch (error) {
+      log.warn('Failed to persist the snapshot:', error);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  AccessibilityDetectorError,
+  ListenerError,
+  QueryError,
+  toAccessibilityDetectorError,
+  VisibilityRestrictedError,
+} from '../AccessibilityDetectorError';
+
+const nativeRejection = (code: string, message: string) =>
+  Object.assign(new Error(message), { code });
+
+describe('toAccessibilityDetectorError', () => {
+  it('maps native rejection codes to typed errors', () => {
+    const startError = toAccessibilityDetectorError(
+      nativeRejection('START_LISTENING_ERROR', 'boom')
+    );
+    expect(startError).toBeInstanceOf(ListenerError);
+    expect(startError).toBeInstanceOf(AccessibilityDetectorError);
+    expect(startError.code).toBe('E_START_LISTENING_FAILED');
+    expect(startError.nativeCode).toBe('START_LISTENING_ERROR');
+    expect(startError.message).toBe('boom');
+
+    expect(
+      toAccessibilityDetectorError(
+        nativeRejection('GET_INSTALLED_APPS_ERROR', 'failed')
+      )
+    ).toMatchObject({ code: 'E_PACKAGE_QUERY_FAILED' });
+    expect(
+      toAccessibilityDetectorError(
+        nativeRejection('VISIBILITY_RESTRICTED', 'denied')
+      )
+    ).toBeInstanceOf(VisibilityRestrictedError);
+  });
+
+  it('uses the fallback code for unrecognized errors', () => {
+    const cause = new Error('unexpected');
+    const error = toAccessibilityDetectorError(cause, 'E_SERVICE_QUERY_FAILED');
+
+    expect(error).toBeInstanceOf(QueryError);
+    expect(error.code).toBe('E_SERVICE_QUERY_FAILED');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('returns library errors unchanged', () => {
+    const error = new AccessibilityDetectorError('E_NOT_LINKED', 'not linked');
+    expect(toAccessibilityDetectorError(error)).toBe(error);
+  });
+});
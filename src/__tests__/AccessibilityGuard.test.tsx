@@ -0,0 +1,209 @@
+import type * as ReactModule from 'react';
+import type * as ReactNative from 'react-native';
+import type * as ReactTestRenderer from 'react-test-renderer';
+import type * as JestEntry from '../jest';
+import type * as Library from '../index';
+
+let React: typeof ReactModule;
+let RN: typeof ReactNative;
+let renderer: typeof ReactTestRenderer;
+let jestEntry: typeof JestEntry;
+let library: typeof Library;
+let mock: JestEntry.MockAccessibilityServicesDetector;
+
+function load(options: JestEntry.InstallMockOptions = {}): void {
+  jest.resetModules();
+  React = require('react');
+  RN = require('react-native');
+  renderer = require('react-test-renderer');
+  jestEntry = require('../jest');
+  mock = jestEntry.installMockAccessibilityServicesDetector(options);
+  library = require('../index');
+  library.configure({ logLevel: 'silent' });
+}
+
+const flushPromises = () =>
+  new Promise(jest.requireActual('timers').setImmediate);
+
+const policy: Library.PolicyDefinition = {
+  deny: [{ isSystemApp: false }],
+  remoteAccessApps: { deny: [{ riskTiers: ['high'] }] },
+};
+
+function renderGuard(
+  props: Partial<Library.AccessibilityGuardProps> = {}
+): ReactTestRenderer.ReactTestRenderer {
+  let root: ReactTestRenderer.ReactTestRenderer | undefined;
+  renderer.act(() => {
+    root = renderer.create(
+      React.createElement(
+        library.AccessibilityGuard,
+        {
+          policy,
+          loadingFallback: React.createElement(RN.Text, null, 'Loading'),
+          ...props,
+        },
+        React.createElement(RN.Text, null, 'Payment form')
+      )
+    );
+  });
+  return root as ReactTestRenderer.ReactTestRenderer;
+}
+
+const settle = () =>
+  renderer.act(async () => {
+    await flushPromises();
+  });
+
+const getTexts = (root: ReactTestRenderer.ReactTestRenderer): string[] =>
+  root.root
+    .findAllByType(RN.Text)
+    .map((node) => [node.props.children].flat().join(''));
+
+describe('AccessibilityGuard', () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeAll(() => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    load();
+    consoleError = jest.spyOn(console, 'error');
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('renders the loading fallback until the state has been read', async () => {
+    const root = renderGuard();
+    expect(getTexts(root)).toEqual(['Loading']);
+
+    await settle();
+    renderer.act(() => root.unmount());
+  });
+
+  it('renders the children while the device is compliant', async () => {
+    mock.setEnabledAccessibilityServices([
+      jestEntry.buildAccessibilityServiceInfo(),
+    ]);
+    const onEvaluate = jest.fn();
+    const root = renderGuard({ onEvaluate });
+    await settle();
+
+    expect(getTexts(root)).toEqual(['Payment form']);
+    expect(onEvaluate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ compliant: true })
+    );
+    renderer.act(() => root.unmount());
+  });
+
+  it('lists every offending service and app when the policy is violated', async () => {
+    // Two services of the same app share a label
+    mock.setEnabledAccessibilityServices([
+      jestEntry.buildAccessibilityServiceInfo(),
+      jestEntry.buildAccessibilityServiceInfo({
+        packageName: 'com.example.overlay',
+        serviceName: 'com.example.overlay.DrawService',
+        label: 'Overlay',
+        isSystemApp: false,
+      }),
+      jestEntry.buildAccessibilityServiceInfo({
+        packageName: 'com.example.overlay',
+        serviceName: 'com.example.overlay.ReadService',
+        label: 'Overlay',
+        isSystemApp: false,
+      }),
+    ]);
+    mock.setInstalledRemoteAccessApps([jestEntry.buildRemoteAccessApp()]);
+    const root = renderGuard();
+    await settle();
+
+    const texts = getTexts(root);
+    expect(texts).not.toContain('Payment form');
+    expect(texts.filter((text) => text.startsWith('• '))).toEqual([
+      '• Overlay',
+      '• Overlay',
+      '• TeamViewer QuickSupport',
+    ]);
+    const warnings = consoleError.mock.calls.map(([message]) =>
+      String(message)
+    );
+    expect(warnings.join('\n')).not.toContain('same key');
+    renderer.act(() => root.unmount());
+  });
+
+  it('fails closed when the state cannot be read', async () => {
+    const error = new Error('Service query failed');
+    mock.rejectNextCall('getEnabledAccessibilityServices', error);
+    const fallback = jest.fn(() =>
+      React.createElement(RN.Text, null, 'Unavailable')
+    );
+    const root = renderGuard({ fallback });
+    await settle();
+
+    expect(getTexts(root)).toEqual(['Unavailable']);
+    expect(fallback).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        result: null,
+        error: expect.objectContaining({ code: 'E_SERVICE_QUERY_FAILED' }),
+      })
+    );
+    renderer.act(() => root.unmount());
+  });
+
+  it('renders the fallback with the error of an invalid policy', async () => {
+    const fallback = jest.fn(() =>
+      React.createElement(RN.Text, null, 'Unavailable')
+    );
+    const root = renderGuard({
+      policy: { deny: [{ isSystemApp: 'no' }] } as never,
+      fallback,
+    });
+    await settle();
+
+    expect(getTexts(root)).toEqual(['Unavailable']);
+    expect(fallback).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        result: null,
+        error: expect.any(TypeError),
+      })
+    );
+    renderer.act(() => root.unmount());
+  });
+
+  it('evaluates an inline policy again only when its content changes', async () => {
+    const onEvaluate = jest.fn();
+    const render = (inlinePolicy: Library.PolicyDefinition) =>
+      React.createElement(
+        library.AccessibilityGuard,
+        { policy: inlinePolicy, onEvaluate },
+        React.createElement(RN.Text, null, 'Payment form')
+      );
+    const root = renderGuard({ onEvaluate });
+    await settle();
+    expect(onEvaluate).toHaveBeenCalledTimes(1);
+
+    renderer.act(() => root.update(render({ ...policy })));
+    expect(onEvaluate).toHaveBeenCalledTimes(1);
+
+    renderer.act(() =>
+      root.update(render({ ...policy, defaultAction: 'deny' }))
+    );
+    expect(onEvaluate).toHaveBeenCalledTimes(2);
+    renderer.act(() => root.unmount());
+  });
+
+  it('treats an unsupported platform as having no remote access apps', async () => {
+    load({ platform: 'ios' });
+    library.configure({ strictMode: true });
+    const root = renderGuard();
+    await settle();
+
+    expect(getTexts(root)).toEqual(['Payment form']);
+    renderer.act(() => root.unmount());
+  });
+});
@@ -0,0 +1,143 @@
+import { AppState, type AppStateStatus } from 'react-native';
+import {
+  AccessibilityLifecycleManager,
+  DEFAULT_LIFECYCLE_MANAGER_OPTIONS,
+} from '../AccessibilityLifecycleManager';
+import type {
+  AccessibilityServiceInfo,
+  RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+import { configure } from '../configuration';
+import { buildAccessibilityServiceInfo, buildRemoteAccessApp } from '../jest';
+
+const flushPromises = () =>
+  new Promise(jest.requireActual('timers').setImmediate);
+
+const { debounceMs } = DEFAULT_LIFECYCLE_MANAGER_OPTIONS;
+
+describe('AccessibilityLifecycleManager', () => {
+  let services: AccessibilityServiceInfo[];
+  let apps: RemoteAccessApp[];
+  const detector = {
+    getEnabledAccessibilityServices: jest.fn(async () => services),
+    getInstalledRemoteAccessApps: jest.fn(async () => apps),
+  };
+
+  const emitAppState = async (state: AppStateStatus) => {
+    const handler = jest
+      .mocked(AppState.addEventListener)
+      .mock.calls.at(-1)?.[1];
+    handler?.(state);
+    await flushPromises();
+  };
+
+  const resume = async () => {
+    await emitAppState('active');
+    jest.advanceTimersByTime(debounceMs);
+    await flushPromises();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    configure({ logLevel: 'silent' });
+    services = [buildAccessibilityServiceInfo()];
+    apps = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports services and apps that changed while away in one event', async () => {
+    const manager = new AccessibilityLifecycleManager(detector);
+    const callback = jest.fn();
+    const subscription = manager.addStateChangedWhileAwayListener(callback);
+
+    await emitAppState('background');
+    const overlay = buildAccessibilityServiceInfo({
+      packageName: 'com.example.overlay',
+    });
+    const anyDesk = buildRemoteAccessApp();
+    services = [...services, overlay];
+    apps = [anyDesk];
+    await resume();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        services: expect.objectContaining({ added: [overlay], removed: [] }),
+        remoteAccessApps: expect.objectContaining({ added: [anyDesk] }),
+        backgroundedAt: expect.any(Number),
+        resumedAt: expect.any(Number),
+      })
+    );
+
+    subscription.remove();
+    expect(manager.isRunning()).toBe(false);
+  });
+
+  it('stays quiet when nothing changed', async () => {
+    const callback = jest.fn();
+    new AccessibilityLifecycleManager(
+      detector
+    ).addStateChangedWhileAwayListener(callback);
+
+    await emitAppState('background');
+    await resume();
+
+    expect(detector.getEnabledAccessibilityServices).toHaveBeenCalledTimes(2);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('debounces background and foreground bursts into one check', async () => {
+    const callback = jest.fn();
+    new AccessibilityLifecycleManager(
+      detector
+    ).addStateChangedWhileAwayListener(callback);
+
+    await emitAppState('background');
+    services = [];
+    await emitAppState('active');
+    await emitAppState('background');
+    await emitAppState('active');
+    await emitAppState('inactive');
+    await resume();
+
+    // One read when leaving, one after the last resume
+    expect(detector.getEnabledAccessibilityServices).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not report after the last listener is removed', async () => {
+    const callback = jest.fn();
+    const subscription = new AccessibilityLifecycleManager(
+      detector
+    ).addStateChangedWhileAwayListener(callback);
+
+    await emitAppState('background');
+    services = [];
+    await emitAppState('active');
+    subscription.remove();
+    jest.advanceTimersByTime(debounceMs);
+    await flushPromises();
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('skips the check when the state cannot be read', async () => {
+    const callback = jest.fn();
+    new AccessibilityLifecycleManager(
+      detector
+    ).addStateChangedWhileAwayListener(callback);
+
+    detector.getEnabledAccessibilityServices.mockRejectedValueOnce(
+      new Error('boom')
+    );
+    await emitAppState('background');
+    services = [];
+    await resume();
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,225 @@
+import { createPolicy, evaluatePolicy } from '../AccessibilityPolicy';
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+
+const service = (
+  overrides: Partial<AccessibilityServiceInfo> = {}
+): AccessibilityServiceInfo => ({
+  id: 'com.example.app/.ExampleService',
+  label: 'Example Service',
+  appLabel: 'Example',
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_GENERIC,
+  feedbackTypeNames: ['FEEDBACK_GENERIC'],
+  isSystemApp: false,
+  packageName: 'com.example.app',
+  serviceName: 'com.example.app.ExampleService',
+  ...overrides,
+});
+
+const talkBack = service({
+  id: 'com.google.android.marvin.talkback/com.google.android.marvin.talkback.TalkBackService',
+  packageName: 'com.google.android.marvin.talkback',
+  serviceName: 'com.google.android.marvin.talkback.TalkBackService',
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN,
+  isSystemApp: true,
+});
+
+const samsungVoice = service({
+  id: 'com.samsung.android.accessibility.talkback/.TalkBackService',
+  packageName: 'com.samsung.android.accessibility.talkback',
+  isSystemApp: true,
+});
+
+const teamViewerHost: RemoteAccessApp = {
+  packageName: 'com.teamviewer.host.market',
+  appName: 'TeamViewer Host',
+  category: 'remote-support',
+  riskTier: 'high',
+};
+
+const intune: RemoteAccessApp = {
+  packageName: 'com.microsoft.windowsintune.companyportal',
+  appName: 'Company Portal',
+  category: 'mdm',
+  riskTier: 'low',
+};
+
+const sideloaded: RemoteAccessApp = {
+  packageName: 'com.example.remote',
+  appName: 'Example Remote',
+};
+
+describe('createPolicy', () => {
+  it('defaults to allowing unmatched services', () => {
+    expect(createPolicy({})).toEqual({
+      allow: [],
+      deny: [],
+      defaultAction: 'allow',
+    });
+  });
+
+  it('parses JSON and resolves feedback type names', () => {
+    const policy = createPolicy(
+      JSON.stringify({
+        name: 'payments',
+        deny: [{ feedbackTypes: ['FEEDBACK_GENERIC'], isSystemApp: false }],
+      })
+    );
+
+    expect(policy.name).toBe('payments');
+    expect(policy.deny[0]?.feedbackTypes).toEqual([
+      AccessibilityServiceFeedbackType.FEEDBACK_GENERIC,
+    ]);
+  });
+
+  it('rejects malformed definitions with the offending path', () => {
+    expect(() => createPolicy('{')).toThrow(TypeError);
+    expect(() => createPolicy({ allow: [{}] })).toThrow(
+      'Invalid accessibility policy: allow[0] must declare at least one condition'
+    );
+    expect(() =>
+      createPolicy({
+        deny: [{ feedbackTypes: ['FEEDBACK_SMELL' as 'FEEDBACK_SPOKEN'] }],
+      })
+    ).toThrow('deny[0].feedbackTypes[0]');
+    expect(() =>
+      createPolicy(JSON.stringify({ deny: [{ feedbackTypes: ['toString'] }] }))
+    ).toThrow('deny[0].feedbackTypes[0]');
+    expect(() =>
+      createPolicy(JSON.stringify({ deny: [{ feedbackTypes: ['1'] }] }))
+    ).toThrow('deny[0].feedbackTypes[0]');
+    expect(() =>
+      createPolicy({ defaultAction: 'block' as unknown as 'deny' })
+    ).toThrow('defaultAction');
+  });
+
+  it('validates remote access app rules', () => {
+    expect(
+      createPolicy({ remoteAccessApps: { deny: [{ riskTiers: ['high'] }] } })
+        .remoteAccessApps
+    ).toEqual({
+      allow: [],
+      deny: [{ riskTiers: ['high'] }],
+      defaultAction: 'allow',
+    });
+    expect(() => createPolicy({ remoteAccessApps: { allow: [{}] } })).toThrow(
+      'remoteAccessApps.allow[0] must declare at least one condition'
+    );
+    expect(() =>
+      createPolicy({
+        remoteAccessApps: {
+          deny: [{ categories: ['keylogger' as 'mdm'] }],
+        },
+      })
+    ).toThrow('remoteAccessApps.deny[0].categories[0]');
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('lets allow rules override broad deny rules', () => {
+    const policy = createPolicy({
+      allow: [{ packageName: 'com.google.android.marvin.talkback' }],
+      deny: [{ isSystemApp: true, description: 'no system services' }],
+    });
+
+    const result = evaluatePolicy([talkBack, samsungVoice], policy);
+
+    expect(result.compliant).toBe(false);
+    expect(result.allowed).toEqual([talkBack]);
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        service: samsungVoice,
+        reason: 'denied',
+        message: `${samsungVoice.id} is denied by rule: no system services`,
+      }),
+    ]);
+  });
+
+  it('supports wildcard patterns', () => {
+    const policy = createPolicy({
+      allow: [{ packageName: 'com.samsung.*' }, { id: '*/.ExampleService' }],
+      defaultAction: 'deny',
+    });
+
+    const unknown = service({ id: 'com.other/.Other' });
+    const result = evaluatePolicy(
+      [samsungVoice, service(), unknown, talkBack],
+      policy
+    );
+
+    expect(result.allowed).toEqual([samsungVoice, service()]);
+    expect(result.violations.map((violation) => violation.reason)).toEqual([
+      'not-allowed',
+      'not-allowed',
+    ]);
+  });
+
+  it('matches feedback types as a bitmask', () => {
+    const policy = createPolicy({
+      deny: [
+        { feedbackTypes: [AccessibilityServiceFeedbackType.FEEDBACK_HAPTIC] },
+      ],
+    });
+    const multiFeedback = service({
+      feedbackType:
+        AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN +
+        AccessibilityServiceFeedbackType.FEEDBACK_HAPTIC,
+    });
+
+    expect(evaluatePolicy([multiFeedback, talkBack], policy)).toMatchObject({
+      allowed: [talkBack],
+      violations: [{ service: multiFeedback, reason: 'denied' }],
+    });
+  });
+
+  it('evaluates remote access apps against their own rules', () => {
+    const policy = createPolicy({
+      remoteAccessApps: {
+        allow: [{ categories: ['mdm'] }],
+        deny: [{ riskTiers: ['high', 'low'], description: 'no risky apps' }],
+      },
+    });
+
+    const result = evaluatePolicy([talkBack], policy, [
+      teamViewerHost,
+      intune,
+      sideloaded,
+    ]);
+
+    expect(result.compliant).toBe(false);
+    expect(result.allowed).toEqual([talkBack]);
+    expect(result.allowedRemoteAccessApps).toEqual([intune, sideloaded]);
+    expect(result.remoteAccessAppViolations).toEqual([
+      expect.objectContaining({
+        app: teamViewerHost,
+        reason: 'denied',
+        message: `${teamViewerHost.packageName} is denied by rule: no risky apps`,
+      }),
+    ]);
+  });
+
+  it('denies unmatched remote access apps with a deny default', () => {
+    const policy = createPolicy({
+      remoteAccessApps: {
+        allow: [{ packageName: 'com.microsoft.*' }],
+        defaultAction: 'deny',
+      },
+    });
+
+    expect(evaluatePolicy([], policy, [intune, sideloaded])).toMatchObject({
+      compliant: false,
+      allowedRemoteAccessApps: [intune],
+      remoteAccessAppViolations: [{ app: sideloaded, reason: 'not-allowed' }],
+    });
+  });
+
+  it('ignores remote access apps when the policy has no rules for them', () => {
+    const result = evaluatePolicy([], createPolicy({}), [teamViewerHost]);
+
+    expect(result.compliant).toBe(true);
+    expect(result.allowedRemoteAccessApps).toEqual([teamViewerHost]);
+  });
+});
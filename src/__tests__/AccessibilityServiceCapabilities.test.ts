@@ -0,0 +1,109 @@
+import {
+  getCapabilityNames,
+  getEventTypeNames,
+  getFlagNames,
+  hasCapability,
+} from '../AccessibilityServiceCapabilities';
+import {
+  AccessibilityServiceCapability,
+  AccessibilityServiceEventType,
+  AccessibilityServiceFlag,
+} from '../AccessibilityServicesDetector.types';
+import { buildAccessibilityServiceInfo } from '../jest';
+
+describe('getEventTypeNames', () => {
+  it('decodes each event type in the mask', () => {
+    expect(
+      getEventTypeNames(
+        // eslint-disable-next-line no-bitwise
+        AccessibilityServiceEventType.TYPE_VIEW_CLICKED |
+          AccessibilityServiceEventType.TYPE_WINDOW_STATE_CHANGED
+      )
+    ).toEqual(['TYPE_VIEW_CLICKED', 'TYPE_WINDOW_STATE_CHANGED']);
+  });
+
+  it('reports every event type as TYPES_ALL_MASK', () => {
+    expect(
+      getEventTypeNames(AccessibilityServiceEventType.TYPES_ALL_MASK)
+    ).toEqual(['TYPES_ALL_MASK']);
+  });
+
+  it('ignores bits without a name', () => {
+    expect(getEventTypeNames(0)).toEqual([]);
+    expect(getEventTypeNames(2 ** 30)).toEqual([]);
+  });
+});
+
+describe('getFlagNames', () => {
+  it('decodes each flag in the mask', () => {
+    expect(
+      getFlagNames(
+        // eslint-disable-next-line no-bitwise
+        AccessibilityServiceFlag.DEFAULT |
+          AccessibilityServiceFlag.FLAG_REQUEST_FILTER_KEY_EVENTS
+      )
+    ).toEqual(['DEFAULT', 'FLAG_REQUEST_FILTER_KEY_EVENTS']);
+  });
+});
+
+describe('getCapabilityNames', () => {
+  it('decodes each capability in the mask', () => {
+    expect(
+      getCapabilityNames(
+        // eslint-disable-next-line no-bitwise
+        AccessibilityServiceCapability.CAPABILITY_CAN_PERFORM_GESTURES |
+          AccessibilityServiceCapability.CAPABILITY_CAN_TAKE_SCREENSHOT
+      )
+    ).toEqual([
+      'CAPABILITY_CAN_PERFORM_GESTURES',
+      'CAPABILITY_CAN_TAKE_SCREENSHOT',
+    ]);
+  });
+});
+
+describe('hasCapability', () => {
+  it('checks a single capability', () => {
+    const service = buildAccessibilityServiceInfo({
+      capabilities:
+        // eslint-disable-next-line no-bitwise
+        AccessibilityServiceCapability.CAPABILITY_CAN_RETRIEVE_WINDOW_CONTENT |
+        AccessibilityServiceCapability.CAPABILITY_CAN_PERFORM_GESTURES,
+    });
+
+    expect(
+      hasCapability(
+        service,
+        AccessibilityServiceCapability.CAPABILITY_CAN_PERFORM_GESTURES
+      )
+    ).toBe(true);
+    expect(
+      hasCapability(
+        service,
+        AccessibilityServiceCapability.CAPABILITY_CAN_REQUEST_FILTER_KEY_EVENTS
+      )
+    ).toBe(false);
+  });
+
+  it('treats a missing mask as no capabilities', () => {
+    expect(
+      hasCapability(
+        { capabilities: undefined },
+        AccessibilityServiceCapability.CAPABILITY_CAN_TAKE_SCREENSHOT
+      )
+    ).toBe(false);
+  });
+});
+
+describe('buildAccessibilityServiceInfo', () => {
+  it('builds masks that match their names', () => {
+    const service = buildAccessibilityServiceInfo();
+
+    expect(getEventTypeNames(service.eventTypes ?? 0)).toEqual(
+      service.eventTypeNames
+    );
+    expect(getFlagNames(service.flags ?? 0)).toEqual(service.flagNames);
+    expect(getCapabilityNames(service.capabilities ?? 0)).toEqual(
+      service.capabilityNames
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  addAccessibilityServiceFingerprints,
+  classifyAccessibilityService,
+  clearAccessibilityServiceFingerprints,
+} from '../AccessibilityServiceFingerprints';
+import { buildAccessibilityServiceInfo } from '../jest';
+
+const talkBack = buildAccessibilityServiceInfo({
+  packageName: 'com.google.android.marvin.talkback',
+  serviceName: 'com.google.android.marvin.talkback.TalkBackService',
+});
+
+describe('classifyAccessibilityService', () => {
+  afterEach(() => clearAccessibilityServiceFingerprints());
+
+  it('classifies services from the bundled fingerprints', () => {
+    expect(classifyAccessibilityService(talkBack)).toMatchObject({
+      classification: 'screen-reader',
+      verdict: 'known-good',
+      source: 'bundled',
+    });
+
+    const switchAccess = buildAccessibilityServiceInfo({
+      packageName: 'com.google.android.marvin.talkback',
+      serviceName:
+        'com.google.android.accessibility.switchaccess.SwitchAccessService',
+    });
+    expect(classifyAccessibilityService(switchAccess).classification).toBe(
+      'switch-access'
+    );
+  });
+
+  it('returns unknown for services without a fingerprint', () => {
+    expect(
+      classifyAccessibilityService(
+        buildAccessibilityServiceInfo({ packageName: 'com.example.unknown' })
+      )
+    ).toEqual({
+      classification: 'unknown',
+      verdict: 'unknown',
+      source: 'none',
+    });
+  });
+
+  it('checks overrides before the bundled fingerprints', () => {
+    const overlay = buildAccessibilityServiceInfo({
+      packageName: 'com.example.flashlight',
+    });
+    addAccessibilityServiceFingerprints([
+      {
+        packageName: 'com.example.*',
+        classification: 'overlay',
+        verdict: 'unknown',
+      },
+    ]);
+    addAccessibilityServiceFingerprints([
+      {
+        id: overlay.id,
+        classification: 'overlay',
+        verdict: 'known-bad',
+      },
+      {
+        packageName: talkBack.packageName,
+        classification: 'screen-reader',
+        verdict: 'known-bad',
+      },
+    ]);
+
+    expect(classifyAccessibilityService(overlay)).toMatchObject({
+      verdict: 'known-bad',
+      source: 'override',
+    });
+    expect(classifyAccessibilityService(talkBack).source).toBe('override');
+
+    clearAccessibilityServiceFingerprints();
+    expect(classifyAccessibilityService(talkBack).source).toBe('bundled');
+  });
+
+  it('rejects fingerprints that match every service', () => {
+    expect(() =>
+      addAccessibilityServiceFingerprints([
+        { classification: 'overlay', verdict: 'known-bad' },
+      ])
+    ).toThrow(
+      'Invalid accessibility service fingerprint: [0] requires an id, packageName or serviceName'
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  diffAccessibilityServices,
+  hasSnapshotChanges,
+} from '../AccessibilityServicesDiff';
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+} from '../AccessibilityServicesDetector.types';
+
+const service = (id: string): AccessibilityServiceInfo => ({
+  id,
+  label: id,
+  appLabel: id,
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN,
+  feedbackTypeNames: ['FEEDBACK_SPOKEN'],
+  isSystemApp: true,
+  packageName: id.split('/')[0] ?? id,
+  serviceName: id,
+});
+
+describe('diffAccessibilityServices', () => {
+  it('keys services on id', () => {
+    const talkBack = service('com.google.android.marvin.talkback/.TalkBack');
+    const switchAccess = service('com.google.android.accessibility/.Switch');
+    const overlay = service('com.evil/.Overlay');
+
+    const diff = diffAccessibilityServices(
+      [talkBack, switchAccess],
+      [{ ...talkBack, label: 'Renamed' }, overlay]
+    );
+
+    expect(diff.added).toEqual([overlay]);
+    expect(diff.removed).toEqual([switchAccess]);
+    expect(diff.unchanged).toEqual([{ ...talkBack, label: 'Renamed' }]);
+    expect(hasSnapshotChanges(diff)).toBe(true);
+  });
+
+  it('reports no changes for the same set of services', () => {
+    const talkBack = service('com.google.android.marvin.talkback/.TalkBack');
+
+    expect(
+      hasSnapshotChanges(diffAccessibilityServices([talkBack], [talkBack]))
+    ).toBe(false);
+  });
+});
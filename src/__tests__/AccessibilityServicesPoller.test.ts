@@ -0,0 +1,109 @@
+import { AppState, type AppStateStatus } from 'react-native';
+import {
+  AccessibilityServicesPoller,
+  DEFAULT_POLLING_OPTIONS,
+} from '../AccessibilityServicesPoller';
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+} from '../AccessibilityServicesDetector.types';
+
+const service = (id: string): AccessibilityServiceInfo => ({
+  id,
+  label: id,
+  appLabel: id,
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_GENERIC,
+  feedbackTypeNames: ['FEEDBACK_GENERIC'],
+  isSystemApp: false,
+  packageName: id,
+  serviceName: id,
+});
+
+const flushPromises = () =>
+  new Promise(jest.requireActual('timers').setImmediate);
+
+describe('AccessibilityServicesPoller', () => {
+  let services: AccessibilityServiceInfo[];
+  const fetchServices = jest.fn(async () => services);
+  const onChange = jest.fn();
+
+  const emitAppState = (state: AppStateStatus) => {
+    const handler = jest
+      .mocked(AppState.addEventListener)
+      .mock.calls.at(-1)?.[1];
+    handler?.(state);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    services = [service('a')];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('only reports when the set of services changes', async () => {
+    const poller = new AccessibilityServicesPoller(
+      fetchServices,
+      onChange,
+      DEFAULT_POLLING_OPTIONS
+    );
+    poller.start();
+    await flushPromises();
+
+    jest.advanceTimersByTime(DEFAULT_POLLING_OPTIONS.intervalMs);
+    await flushPromises();
+    expect(onChange).not.toHaveBeenCalled();
+
+    services = [service('a'), service('b')];
+    jest.advanceTimersByTime(DEFAULT_POLLING_OPTIONS.intervalMs);
+    await flushPromises();
+    expect(onChange).toHaveBeenCalledWith(services);
+
+    poller.stop();
+    expect(poller.isRunning()).toBe(false);
+  });
+
+  it('pauses in the background and checks immediately on resume', async () => {
+    const poller = new AccessibilityServicesPoller(
+      fetchServices,
+      onChange,
+      DEFAULT_POLLING_OPTIONS
+    );
+    poller.start();
+    await flushPromises();
+    expect(fetchServices).toHaveBeenCalledTimes(1);
+
+    emitAppState('background');
+    jest.advanceTimersByTime(DEFAULT_POLLING_OPTIONS.intervalMs * 3);
+    expect(fetchServices).toHaveBeenCalledTimes(1);
+
+    services = [];
+    emitAppState('active');
+    await flushPromises();
+    expect(fetchServices).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenCalledWith([]);
+
+    poller.stop();
+  });
+
+  it.each([0, -1000, NaN, Infinity])(
+    'rejects an interval of %p',
+    (intervalMs) => {
+      expect(
+        () =>
+          new AccessibilityServicesPoller(fetchServices, onChange, {
+            ...DEFAULT_POLLING_OPTIONS,
+            intervalMs,
+          })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'E_INVALID_ARGUMENT',
+          message: expect.stringContaining('intervalMs must be a finite'),
+        })
+      );
+    }
+  );
+});
@@ -0,0 +1,66 @@
+import { AccessibilityServiceFeedbackType } from '../AccessibilityServicesDetector.types';
+import {
+  decodeFeedbackTypes,
+  getFeedbackTypeLabel,
+  getFeedbackTypeLabels,
+  hasFeedback,
+} from '../FeedbackTypes';
+import { buildAccessibilityServiceInfo } from '../jest';
+
+const {
+  FEEDBACK_SPOKEN,
+  FEEDBACK_HAPTIC,
+  FEEDBACK_BRAILLE,
+  FEEDBACK_ALL_MASK,
+} = AccessibilityServiceFeedbackType;
+
+describe('decodeFeedbackTypes', () => {
+  it('returns the enum members set in the mask', () => {
+    // eslint-disable-next-line no-bitwise
+    expect(decodeFeedbackTypes(FEEDBACK_SPOKEN | FEEDBACK_BRAILLE)).toEqual([
+      FEEDBACK_SPOKEN,
+      FEEDBACK_BRAILLE,
+    ]);
+    expect(decodeFeedbackTypes(0)).toEqual([]);
+  });
+
+  it('expands FEEDBACK_ALL_MASK to every feedback type', () => {
+    expect(decodeFeedbackTypes(FEEDBACK_ALL_MASK)).toHaveLength(6);
+  });
+});
+
+describe('hasFeedback', () => {
+  const service = buildAccessibilityServiceInfo({
+    // eslint-disable-next-line no-bitwise
+    feedbackType: FEEDBACK_SPOKEN | FEEDBACK_HAPTIC,
+  });
+
+  it('checks each bit of the mask', () => {
+    expect(hasFeedback(service, FEEDBACK_HAPTIC)).toBe(true);
+    expect(hasFeedback(service, FEEDBACK_BRAILLE)).toBe(false);
+    expect(hasFeedback(service, FEEDBACK_ALL_MASK)).toBe(true);
+  });
+});
+
+describe('getFeedbackTypeLabels', () => {
+  it('uses English labels by default', () => {
+    // eslint-disable-next-line no-bitwise
+    expect(getFeedbackTypeLabels(FEEDBACK_SPOKEN | FEEDBACK_HAPTIC)).toEqual([
+      'Spoken',
+      'Haptic',
+    ]);
+  });
+
+  it('prefers the given translations', () => {
+    expect(
+      // eslint-disable-next-line no-bitwise
+      getFeedbackTypeLabels(FEEDBACK_SPOKEN | FEEDBACK_HAPTIC, {
+        FEEDBACK_SPOKEN: 'Gesprochen',
+      })
+    ).toEqual(['Gesprochen', 'Haptic']);
+  });
+
+  it('falls back to the value for types without a label', () => {
+    expect(getFeedbackTypeLabel(FEEDBACK_ALL_MASK)).toBe('-1');
+  });
+});
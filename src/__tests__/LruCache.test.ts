@@ -0,0 +1,17 @@
+import { LruCache } from '../LruCache';
+
+describe('LruCache', () => {
+  it('evicts the least recently used entry when full', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+import type { DeviceAccessibilitySnapshot } from '../DeviceAccessibilitySnapshot';
+import {
+  createPrivacyReport,
+  hashIdentifier,
+  matchPrivacyReport,
+} from '../PrivacyReport';
+import { serializePrivacyReport } from '../Serialization';
+
+const salt = 'analytics-salt';
+
+const overlay: AccessibilityServiceInfo = {
+  id: 'com.example.overlay/com.example.overlay.OverlayService',
+  label: 'Overlay',
+  appLabel: 'Overlay',
+  appIcon: 'data:image/png;base64,AAAA',
+  description: 'Draws over other apps',
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_GENERIC,
+  feedbackTypeNames: ['FEEDBACK_GENERIC'],
+  capabilityNames: ['CAPABILITY_CAN_RETRIEVE_WINDOW_CONTENT'],
+  canRetrieveWindowContent: true,
+  isSystemApp: false,
+  packageName: 'com.example.overlay',
+  serviceName: 'com.example.overlay.OverlayService',
+  settingsActivityName: 'com.example.overlay.SettingsActivity',
+  sourceDir: '/data/app/com.example.overlay-1/base.apk',
+};
+
+const talkBack: AccessibilityServiceInfo = {
+  ...overlay,
+  id: 'com.google.android.marvin.talkback/.TalkBackService',
+  packageName: 'com.google.android.marvin.talkback',
+  serviceName: 'com.google.android.marvin.talkback.TalkBackService',
+  isSystemApp: true,
+};
+
+const anyDesk: RemoteAccessApp = {
+  packageName: 'com.anydesk.anydeskandroid',
+  appName: 'AnyDesk',
+  appIcon: 'data:image/png;base64,AAAA',
+  vendor: 'AnyDesk Software',
+  category: 'remote-support',
+  riskTier: 'high',
+};
+
+const snapshot: DeviceAccessibilitySnapshot = {
+  version: 1,
+  platform: 'android',
+  capturedAt: 1000,
+  services: [overlay, talkBack],
+  remoteAccessApps: [anyDesk],
+  settings: {
+    screenReaderEnabled: true,
+    reduceMotionEnabled: false,
+    boldTextEnabled: false,
+    grayscaleEnabled: false,
+    invertColorsEnabled: false,
+    reduceTransparencyEnabled: false,
+    increaseContrastEnabled: false,
+  },
+};
+
+describe('createPrivacyReport', () => {
+  it('hashes identifiers and keeps only coarse fields', () => {
+    const report = createPrivacyReport(snapshot, { salt });
+
+    expect(report.services[0]).toEqual({
+      idHash: hashIdentifier(overlay.id, salt),
+      packageHash: hashIdentifier(overlay.packageName, salt),
+      feedbackType: overlay.feedbackType,
+      feedbackTypeNames: ['FEEDBACK_GENERIC'],
+      capabilityNames: ['CAPABILITY_CAN_RETRIEVE_WINDOW_CONTENT'],
+      canRetrieveWindowContent: true,
+      isAccessibilityTool: undefined,
+      isSystemApp: false,
+    });
+    expect(report.remoteAccessApps).toEqual([
+      {
+        packageHash: hashIdentifier(anyDesk.packageName, salt),
+        category: 'remote-support',
+        riskTier: 'high',
+      },
+    ]);
+    expect(report.settings).toBe(snapshot.settings);
+  });
+
+  it('leaves no package name, label or path in the serialized report', () => {
+    const payload = serializePrivacyReport(
+      createPrivacyReport(snapshot, { salt })
+    );
+
+    [
+      'com.example',
+      'com.google',
+      'AnyDesk',
+      'Overlay',
+      'Draws over other apps',
+      '/data/app',
+    ].forEach((fragment) => expect(payload).not.toContain(fragment));
+    expect(JSON.parse(payload)).toMatchObject({
+      type: 'privacyReport',
+      hashedPackageNames: true,
+    });
+  });
+
+  it('produces different hashes with different salts', () => {
+    expect(hashIdentifier(overlay.packageName, 'a')).not.toBe(
+      hashIdentifier(overlay.packageName, 'b')
+    );
+  });
+
+  it('rejects an empty salt', () => {
+    expect(() => createPrivacyReport(snapshot, { salt: '' })).toThrow(
+      TypeError
+    );
+    expect(() => hashIdentifier(overlay.packageName, '')).toThrow(TypeError);
+  });
+});
+
+describe('matchPrivacyReport', () => {
+  it('matches services and apps against a hashed list', () => {
+    const report = createPrivacyReport(snapshot, { salt });
+    const knownBad = [overlay.packageName, anyDesk.packageName].map(
+      (packageName) => hashIdentifier(packageName, salt)
+    );
+
+    expect(matchPrivacyReport(report, knownBad)).toEqual({
+      services: [report.services[0]],
+      remoteAccessApps: report.remoteAccessApps,
+    });
+    expect(
+      matchPrivacyReport(report, [hashIdentifier(talkBack.id, salt)]).services
+    ).toEqual([report.services[1]]);
+  });
+
+  it('matches nothing when the list was hashed with another salt', () => {
+    const report = createPrivacyReport(snapshot, { salt });
+
+    expect(
+      matchPrivacyReport(report, [hashIdentifier(overlay.packageName, 'other')])
+    ).toEqual({ services: [], remoteAccessApps: [] });
+  });
+});
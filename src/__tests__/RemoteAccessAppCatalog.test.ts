@@ -0,0 +1,22 @@
+import {
+  getRemoteAccessAppCatalogEntry,
+  REMOTE_ACCESS_APP_CATALOG,
+  REMOTE_ACCESS_APP_PACKAGES,
+} from '../RemoteAccessAppCatalog';
+
+describe('REMOTE_ACCESS_APP_CATALOG', () => {
+  it('lists each package once', () => {
+    expect(new Set(REMOTE_ACCESS_APP_PACKAGES).size).toBe(
+      REMOTE_ACCESS_APP_CATALOG.length
+    );
+  });
+
+  it('finds entries by package name', () => {
+    expect(
+      getRemoteAccessAppCatalogEntry('com.anydesk.anydeskandroid')
+    ).toEqual(
+      expect.objectContaining({ vendor: 'AnyDesk Software', riskTier: 'high' })
+    );
+    expect(getRemoteAccessAppCatalogEntry('com.example.app')).toBeUndefined();
+  });
+});
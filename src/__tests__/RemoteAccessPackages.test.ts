@@ -0,0 +1,63 @@
+import {
+  resolveRemoteAccessPackages,
+  validatePackageNames,
+} from '../RemoteAccessPackages';
+
+describe('resolveRemoteAccessPackages', () => {
+  it('lists each package once with its first source', () => {
+    const packages = resolveRemoteAccessPackages(
+      {
+        default: ['com.anydesk.anydeskandroid'],
+        manifest: ['com.example.support', 'com.anydesk.anydeskandroid'],
+        runtime: ['com.example.support', 'com.example.remote'],
+      },
+      { manifestPackages: ['com.example.support'], canQueryAllPackages: false }
+    );
+
+    expect(packages).toEqual([
+      {
+        packageName: 'com.anydesk.anydeskandroid',
+        source: 'default',
+        isQueryable: true,
+      },
+      {
+        packageName: 'com.example.support',
+        source: 'manifest',
+        isQueryable: true,
+      },
+      {
+        packageName: 'com.example.remote',
+        source: 'runtime',
+        isQueryable: false,
+      },
+    ]);
+  });
+
+  it('treats runtime packages as queryable when every package is visible', () => {
+    const [runtime] = resolveRemoteAccessPackages(
+      { default: [], manifest: [], runtime: ['com.example.remote'] },
+      { manifestPackages: [], canQueryAllPackages: true }
+    );
+
+    expect(runtime?.isQueryable).toBe(true);
+  });
+});
+
+describe('validatePackageNames', () => {
+  it('rejects names that are not Java package names', () => {
+    expect(() => validatePackageNames(['com.example.app'])).not.toThrow();
+    expect(() => validatePackageNames(['com.example.app', 'example'])).toThrow(
+      'Invalid package name "example"'
+    );
+    expect(() => validatePackageNames(['com.1example'])).toThrow(TypeError);
+  });
+
+  it('rejects Java keywords like the config plugin does', () => {
+    expect(() => validatePackageNames(['com.example.new'])).toThrow(
+      '"new" is not a valid segment'
+    );
+    expect(() => validatePackageNames([42 as unknown as string])).toThrow(
+      'Invalid package name 42: must be a string'
+    );
+  });
+});
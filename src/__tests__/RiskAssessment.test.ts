@@ -0,0 +1,186 @@
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+import {
+  addAccessibilityServiceFingerprints,
+  clearAccessibilityServiceFingerprints,
+} from '../AccessibilityServiceFingerprints';
+import {
+  compareRiskLevels,
+  evaluateRisk,
+  type RiskRule,
+} from '../RiskAssessment';
+
+const service = (
+  overrides: Partial<AccessibilityServiceInfo> = {}
+): AccessibilityServiceInfo => ({
+  id: 'com.example.app/.ExampleService',
+  label: 'Example Service',
+  appLabel: 'Example',
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN,
+  feedbackTypeNames: ['FEEDBACK_SPOKEN'],
+  isAccessibilityTool: true,
+  isSystemApp: true,
+  packageName: 'com.example.app',
+  serviceName: 'com.example.app.ExampleService',
+  ...overrides,
+});
+
+const remoteApp = (
+  overrides: Partial<RemoteAccessApp> = {}
+): RemoteAccessApp => ({
+  packageName: 'com.anydesk.anydeskandroid',
+  appName: 'AnyDesk',
+  ...overrides,
+});
+
+describe('evaluateRisk', () => {
+  it('reports no risk for system accessibility tools', () => {
+    const report = evaluateRisk({
+      services: [service()],
+      remoteAccessApps: [],
+    });
+
+    expect(report.level).toBe('none');
+    expect(report.findings).toEqual([]);
+  });
+
+  it('flags third-party services that are not accessibility tools', () => {
+    const untrusted = service({
+      id: 'com.evil/.Overlay',
+      packageName: 'com.evil',
+      isSystemApp: false,
+      isAccessibilityTool: false,
+      feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_GENERIC,
+    });
+
+    const report = evaluateRisk({
+      services: [service(), untrusted],
+      remoteAccessApps: [],
+    });
+
+    expect(report.level).toBe('high');
+    expect(report.findings.map((finding) => finding.ruleId)).toEqual([
+      'untrusted-accessibility-service',
+      'generic-feedback-service',
+    ]);
+    expect(report.services).toEqual([untrusted]);
+  });
+
+  it('uses service fingerprints to trust or escalate services', () => {
+    const passwordManager = service({
+      id: 'com.x8bit.bitwarden/.Accessibility.AccessibilityService',
+      packageName: 'com.x8bit.bitwarden',
+      isSystemApp: false,
+      isAccessibilityTool: false,
+    });
+    const overlay = service({
+      id: 'com.example.flashlight/.OverlayService',
+      packageName: 'com.example.flashlight',
+    });
+    addAccessibilityServiceFingerprints([
+      {
+        packageName: 'com.example.flashlight',
+        classification: 'overlay',
+        verdict: 'known-bad',
+      },
+    ]);
+
+    const report = evaluateRisk({
+      services: [passwordManager, overlay],
+      remoteAccessApps: [],
+    });
+    clearAccessibilityServiceFingerprints();
+
+    expect(report.level).toBe('critical');
+    expect(report.findings.map((finding) => finding.ruleId)).toEqual([
+      'known-bad-service',
+    ]);
+    expect(report.services).toEqual([overlay]);
+  });
+
+  it('rates installed remote access apps by their highest risk tier', () => {
+    const viewer = remoteApp({
+      packageName: 'com.realvnc.viewer.android',
+      appName: 'RealVNC Viewer',
+      riskTier: 'low',
+    });
+    const mdm = remoteApp({
+      packageName: 'com.microsoft.intune',
+      appName: 'Microsoft Intune',
+      riskTier: 'medium',
+    });
+
+    expect(
+      evaluateRisk({ services: [], remoteAccessApps: [viewer, mdm] }).level
+    ).toBe('medium');
+    expect(
+      evaluateRisk({ services: [], remoteAccessApps: [viewer, remoteApp()] })
+        .level
+    ).toBe('high');
+  });
+
+  it('escalates to critical when a remote access app owns an enabled service', () => {
+    const anydesk = remoteApp();
+    const remoteService = service({
+      id: 'com.anydesk.anydeskandroid/.AccessibilityService',
+      packageName: anydesk.packageName,
+      isSystemApp: false,
+    });
+
+    const report = evaluateRisk({
+      services: [remoteService],
+      remoteAccessApps: [anydesk],
+    });
+
+    expect(report.level).toBe('critical');
+    expect(report.findings[0]).toMatchObject({
+      ruleId: 'remote-control-service',
+      services: [remoteService],
+      remoteAccessApps: [anydesk],
+    });
+    expect(report.remoteAccessApps).toEqual([anydesk]);
+  });
+
+  it('evaluates custom rules in order and stops after a final rule', () => {
+    const calls: string[] = [];
+    const rules: RiskRule[] = [
+      {
+        id: 'first',
+        final: true,
+        evaluate: () => {
+          calls.push('first');
+          return {
+            level: 'low',
+            reason: 'first rule',
+            services: [],
+            remoteAccessApps: [],
+          };
+        },
+      },
+      {
+        id: 'second',
+        evaluate: () => {
+          calls.push('second');
+          return null;
+        },
+      },
+    ];
+
+    const report = evaluateRisk({ services: [], remoteAccessApps: [] }, rules);
+
+    expect(calls).toEqual(['first']);
+    expect(report.level).toBe('low');
+    expect(report.findings).toHaveLength(1);
+  });
+});
+
+describe('compareRiskLevels', () => {
+  it('orders levels by severity', () => {
+    expect(compareRiskLevels('critical', 'high')).toBeGreaterThan(0);
+    expect(compareRiskLevels('none', 'low')).toBeLessThan(0);
+    expect(compareRiskLevels('medium', 'medium')).toBe(0);
+  });
+});
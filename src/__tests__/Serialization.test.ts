@@ -0,0 +1,204 @@
+import { createHash, createHmac } from 'crypto';
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+import type { DeviceAccessibilitySnapshot } from '../DeviceAccessibilitySnapshot';
+import { evaluateRisk } from '../RiskAssessment';
+import {
+  canonicalJson,
+  serializeRiskReport,
+  serializeSnapshot,
+  signPayload,
+} from '../Serialization';
+import { hmacSha256, sha256 } from '../sha256';
+
+const service: AccessibilityServiceInfo = {
+  id: 'com.example.remote/com.example.remote.ControlService',
+  label: 'Remote Control',
+  appLabel: 'Remote',
+  appIcon: 'data:image/png;base64,AAAA',
+  description: 'Lets Remote control this device',
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_GENERIC,
+  feedbackTypeNames: ['FEEDBACK_GENERIC'],
+  isSystemApp: false,
+  packageName: 'com.example.remote',
+  serviceName: 'com.example.remote.ControlService',
+  sourceDir: '/data/app/com.example.remote-1/base.apk',
+};
+
+const anyDesk: RemoteAccessApp = {
+  packageName: 'com.anydesk.anydeskandroid',
+  appName: 'AnyDesk',
+  appIcon: 'data:image/png;base64,AAAA',
+  vendor: 'AnyDesk Software',
+  category: 'remote-support',
+  riskTier: 'high',
+};
+
+const snapshot: DeviceAccessibilitySnapshot = {
+  version: 1,
+  platform: 'android',
+  capturedAt: 1000,
+  services: [service],
+  remoteAccessApps: [anyDesk],
+  settings: {
+    screenReaderEnabled: false,
+    reduceMotionEnabled: false,
+    boldTextEnabled: false,
+    grayscaleEnabled: false,
+    invertColorsEnabled: false,
+    reduceTransparencyEnabled: false,
+    increaseContrastEnabled: false,
+  },
+};
+
+describe('sha256', () => {
+  it.each(['', 'abc', 'a'.repeat(55), 'a'.repeat(64), 'é😀 com.example'])(
+    'matches node for %j',
+    (message) => {
+      expect(sha256(message)).toBe(
+        createHash('sha256').update(message, 'utf8').digest('hex')
+      );
+    }
+  );
+
+  it('computes HMAC-SHA256 with short and long keys', () => {
+    ['Jefe', 'k'.repeat(100)].forEach((key) => {
+      expect(hmacSha256(key, 'what do ya want for nothing?')).toBe(
+        createHmac('sha256', key)
+          .update('what do ya want for nothing?')
+          .digest('hex')
+      );
+    });
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined properties', () => {
+    expect(
+      canonicalJson({ b: 1, a: [true, { d: null, c: 'x' }], e: undefined })
+    ).toBe('{"a":[true,{"c":"x","d":null}],"b":1}');
+  });
+
+  it('rejects values JSON cannot represent', () => {
+    expect(() => canonicalJson({ a: NaN })).toThrow(TypeError);
+    expect(() => canonicalJson({ a: () => {} })).toThrow(TypeError);
+  });
+});
+
+describe('serializeSnapshot', () => {
+  it('wraps the snapshot in a versioned envelope without icons', () => {
+    const payload = JSON.parse(serializeSnapshot(snapshot));
+
+    expect(payload).toMatchObject({
+      type: 'accessibilitySnapshot',
+      version: 1,
+      hashedPackageNames: false,
+    });
+    expect(payload.data.services[0]).not.toHaveProperty('appIcon');
+    expect(payload.data.services[0].sourceDir).toBe(service.sourceDir);
+    expect(payload.data.remoteAccessApps).toEqual([
+      {
+        packageName: anyDesk.packageName,
+        appName: anyDesk.appName,
+        vendor: anyDesk.vendor,
+        category: anyDesk.category,
+        riskTier: anyDesk.riskTier,
+      },
+    ]);
+  });
+
+  it('produces the same string regardless of key order', () => {
+    const reverseKeys = <T extends object>(value: T): T =>
+      Object.fromEntries(Object.entries(value).reverse()) as T;
+    const reordered = {
+      ...reverseKeys(snapshot),
+      services: snapshot.services.map(reverseKeys),
+    };
+
+    expect(serializeSnapshot(reordered)).toBe(serializeSnapshot(snapshot));
+  });
+
+  it('hashes package names and drops paths on request', () => {
+    const payload = JSON.parse(
+      serializeSnapshot(snapshot, { hashPackageNames: true })
+    );
+
+    expect(payload.hashedPackageNames).toBe(true);
+    expect(payload.data.services[0]).toMatchObject({
+      id: sha256(service.id),
+      packageName: sha256(service.packageName),
+      serviceName: sha256(service.serviceName),
+    });
+    expect(payload.data.services[0]).not.toHaveProperty('sourceDir');
+    expect(payload.data.remoteAccessApps[0].packageName).toBe(
+      sha256(anyDesk.packageName)
+    );
+  });
+
+  it('leaves no label, app name or description in clear text when hashing', () => {
+    const payload = serializeSnapshot(snapshot, { hashPackageNames: true });
+
+    ['Remote', 'AnyDesk', 'com.example', 'com.anydesk'].forEach((fragment) =>
+      expect(payload).not.toContain(fragment)
+    );
+    const { data } = JSON.parse(payload);
+    expect(data.services[0]).toMatchObject({
+      label: sha256(service.label),
+      appLabel: sha256(service.appLabel),
+    });
+    expect(data.services[0]).not.toHaveProperty('description');
+    expect(data.remoteAccessApps[0]).toEqual({
+      packageName: sha256(anyDesk.packageName),
+      appName: sha256(anyDesk.appName),
+      category: 'remote-support',
+      riskTier: 'high',
+    });
+  });
+});
+
+describe('serializeRiskReport', () => {
+  it('strips icons from findings', () => {
+    const report = evaluateRisk({
+      services: [service],
+      remoteAccessApps: [anyDesk],
+    });
+
+    const payload = serializeRiskReport(report);
+
+    expect(JSON.parse(payload).type).toBe('riskReport');
+    expect(payload).not.toContain('appIcon');
+  });
+});
+
+describe('signPayload', () => {
+  const payload = serializeSnapshot(snapshot);
+
+  it('signs with HMAC-SHA256 when given a key', async () => {
+    await expect(signPayload(payload, 'secret')).resolves.toEqual({
+      payload,
+      signature: createHmac('sha256', 'secret').update(payload).digest('hex'),
+      algorithm: 'HMAC-SHA256',
+    });
+  });
+
+  it('delegates to a signing function', async () => {
+    const signer = jest.fn(async () => 'c2lnbmF0dXJl');
+
+    await expect(signPayload(payload, signer)).resolves.toEqual({
+      payload,
+      signature: 'c2lnbmF0dXJl',
+      algorithm: 'custom',
+    });
+    expect(signer).toHaveBeenCalledWith(payload);
+  });
+
+  it('rejects an empty key or signature', async () => {
+    await expect(signPayload(payload, '')).rejects.toBeInstanceOf(TypeError);
+    await expect(signPayload(payload, () => '')).rejects.toBeInstanceOf(
+      TypeError
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { AppState, type AppStateStatus } from 'react-native';
+import {
+  AccessibilityServiceFeedbackType,
+  type AccessibilityServiceInfo,
+  type RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+import { configure } from '../configuration';
+import { SnapshotCache, type SnapshotStorage } from '../SnapshotCache';
+
+const service = (id: string): AccessibilityServiceInfo => ({
+  id,
+  label: id,
+  appLabel: id,
+  feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_GENERIC,
+  feedbackTypeNames: ['FEEDBACK_GENERIC'],
+  isSystemApp: false,
+  packageName: id,
+  serviceName: id,
+});
+
+const anyDesk: RemoteAccessApp = {
+  packageName: 'com.anydesk.anydeskandroid',
+  appName: 'AnyDesk',
+  appIcon: 'data:image/png;base64,AAAA',
+};
+
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  const storage: SnapshotStorage = {
+    getItem: jest.fn(async (key: string) => items.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      items.set(key, value);
+    }),
+  };
+  return { storage, items };
+};
+
+const flushPromises = () =>
+  new Promise(jest.requireActual('timers').setImmediate);
+
+describe('SnapshotCache', () => {
+  const load = jest.fn(async () => [service('a')]);
+
+  const emitAppState = (state: AppStateStatus) => {
+    const handler = jest
+      .mocked(AppState.addEventListener)
+      .mock.calls.at(-1)?.[1];
+    handler?.(state);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    configure({ logLevel: 'silent' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('does not cache unless enabled', async () => {
+    const cache = new SnapshotCache();
+
+    await cache.get('services', load);
+    await cache.get('services', load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves reads from memory until the TTL expires', async () => {
+    const cache = new SnapshotCache();
+    cache.setOptions({ enabled: true, ttlMs: 1000 });
+
+    const [first, second] = await Promise.all([
+      cache.get('services', load),
+      cache.get('services', load),
+    ]);
+    expect(second).toBe(first);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(999);
+    await cache.get('services', load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1);
+    await cache.get('services', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates on app state changes and change events', async () => {
+    const cache = new SnapshotCache();
+    cache.setOptions({ enabled: true });
+
+    await cache.get('services', load);
+    emitAppState('background');
+    await cache.get('services', load);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    const changed = [service('b')];
+    cache.set('services', changed);
+    await expect(cache.get('services', load)).resolves.toBe(changed);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache a read started before an invalidation', async () => {
+    const cache = new SnapshotCache();
+    cache.setOptions({ enabled: true });
+
+    const stale = cache.get('services', load);
+    cache.invalidate();
+    await stale;
+    await cache.get('services', load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('persists the last values without icons, after reading the previous launch', async () => {
+    const previous = { services: [service('old')], savedAt: 1 };
+    const { storage, items } = memoryStorage({
+      snapshot: JSON.stringify(previous),
+    });
+    const cache = new SnapshotCache();
+    cache.setOptions({ storage, storageKey: 'snapshot' });
+
+    await cache.get('remoteAccessApps', async () => [anyDesk]);
+    await flushPromises();
+
+    await expect(cache.getPreviousSnapshot()).resolves.toEqual(previous);
+    expect(JSON.parse(items.get('snapshot') ?? '')).toEqual({
+      services: previous.services,
+      remoteAccessApps: [
+        { packageName: anyDesk.packageName, appName: anyDesk.appName },
+      ],
+      savedAt: Date.now(),
+    });
+  });
+
+  it('persists services without icons', async () => {
+    const { storage, items } = memoryStorage();
+    const cache = new SnapshotCache();
+    cache.setOptions({ storage, storageKey: 'snapshot' });
+
+    await cache.get('services', async () => [
+      { ...service('a'), appIcon: 'data:image/png;base64,AAAA' },
+    ]);
+    await flushPromises();
+
+    const json = items.get('snapshot') ?? '';
+    expect(json).not.toContain('appIcon');
+    expect(JSON.parse(json).services).toEqual([service('a')]);
+  });
+
+  it('ignores a malformed persisted snapshot', async () => {
+    const { storage } = memoryStorage({ snapshot: '{"services":1}' });
+    const cache = new SnapshotCache();
+    cache.setOptions({ storage, storageKey: 'snapshot' });
+
+    await expect(cache.getPreviousSnapshot()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import type * as JestEntry from '../jest';
+import type * as Library from '../index';
+import type * as Configuration from '../configuration';
+
+let jestEntry: typeof JestEntry;
+let library: typeof Library;
+let configuration: typeof Configuration;
+
+function load(options: JestEntry.InstallMockOptions = {}): void {
+  jest.resetModules();
+  jestEntry = require('../jest');
+  jestEntry.installMockAccessibilityServicesDetector(options);
+  library = require('../index');
+  configuration = require('../configuration');
+}
+
+const buildLogger = (): Library.Logger => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+describe('configure', () => {
+  beforeEach(() => load());
+
+  it('merges options into the current configuration', () => {
+    const logger = buildLogger();
+    library.configure({ strictMode: true });
+    library.configure({ logger });
+    library.configure({ logLevel: 'debug' });
+
+    expect(library.getConfiguration()).toEqual({
+      strictMode: true,
+      logger,
+      logLevel: 'debug',
+    });
+  });
+
+  it('defaults to the console logger at the warn level outside strict mode', () => {
+    expect(library.getConfiguration()).toEqual({
+      strictMode: false,
+      logger: library.consoleLogger,
+      logLevel: 'warn',
+    });
+  });
+
+  it('writes prefixed messages to the configured logger', () => {
+    const logger = buildLogger();
+    library.configure({ logger, logLevel: 'debug' });
+    const error = new Error('Failed');
+
+    configuration.log.error('Query failed', error);
+
+    expect(logger.error).toHaveBeenCalledWith(
+      '[AccessibilityServicesDetector] Query failed',
+      error
+    );
+  });
+
+  it('drops messages below the configured log level', () => {
+    const logger = buildLogger();
+    library.configure({ logger, logLevel: 'warn' });
+
+    configuration.log.debug('debug');
+    configuration.log.info('info');
+    configuration.log.warn('warn');
+    configuration.log.error('error');
+
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.info).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+
+    library.configure({ logLevel: 'silent' });
+    configuration.log.error('error');
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('switches unsupported methods from resolving to throwing in strict mode', async () => {
+    load({ platform: 'web' });
+    const logger = buildLogger();
+    library.configure({ logger, logLevel: 'debug' });
+
+    await expect(library.default.getRemoteAccessPackages()).resolves.toEqual(
+      []
+    );
+    expect(logger.debug).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'getRemoteAccessPackages is not implemented on web'
+      )
+    );
+
+    library.configure({ strictMode: true });
+    await expect(
+      library.default.getRemoteAccessPackages()
+    ).rejects.toBeInstanceOf(library.UnsupportedPlatformError);
+  });
+});
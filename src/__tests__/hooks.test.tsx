@@ -0,0 +1,175 @@
+import type * as ReactModule from 'react';
+import type * as ReactTestRenderer from 'react-test-renderer';
+import type * as JestEntry from '../jest';
+import type * as Library from '../index';
+
+type QueryResult =
+  Library.DetectorQueryResult<Library.AccessibilityServiceInfo>;
+
+let React: typeof ReactModule;
+let renderer: typeof ReactTestRenderer;
+let jestEntry: typeof JestEntry;
+let library: typeof Library;
+let mock: JestEntry.MockAccessibilityServicesDetector;
+
+function load(options: JestEntry.InstallMockOptions = {}): void {
+  jest.resetModules();
+  React = require('react');
+  renderer = require('react-test-renderer');
+  jestEntry = require('../jest');
+  mock = jestEntry.installMockAccessibilityServicesDetector(options);
+  library = require('../index');
+  library.configure({ logLevel: 'silent' });
+}
+
+const flushPromises = () =>
+  new Promise(jest.requireActual('timers').setImmediate);
+
+/**
+ * Render a component using `useEnabledAccessibilityServices` and record every result
+ */
+function renderServicesProbe(): {
+  results: QueryResult[];
+  root: ReactTestRenderer.ReactTestRenderer;
+} {
+  const results: QueryResult[] = [];
+  function Probe() {
+    results.push(library.useEnabledAccessibilityServices());
+    return null;
+  }
+  let root: ReactTestRenderer.ReactTestRenderer | undefined;
+  renderer.act(() => {
+    root = renderer.create(React.createElement(Probe));
+  });
+  return { results, root: root as ReactTestRenderer.ReactTestRenderer };
+}
+
+const settle = () =>
+  renderer.act(async () => {
+    await flushPromises();
+  });
+
+const emitAppState = (state: string) => {
+  const { AppState } = require('react-native');
+  jest
+    .mocked(AppState.addEventListener)
+    .mock.calls.filter(([event]: unknown[]) => event === 'change')
+    .forEach(([, handler]: unknown[]) =>
+      (handler as (s: string) => void)(state)
+    );
+};
+
+describe('hooks', () => {
+  beforeAll(() => {
+    (
+      globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => load());
+
+  it('shares one native subscription between components', async () => {
+    const service = jestEntry.buildAccessibilityServiceInfo();
+    mock.setEnabledAccessibilityServices([service]);
+
+    const first = renderServicesProbe();
+    const second = renderServicesProbe();
+    await settle();
+
+    expect(library.default.getListenerCount()).toBe(1);
+    expect(first.results.at(-1)).toMatchObject({
+      data: [service],
+      loading: false,
+      error: null,
+    });
+
+    const screenReader = jestEntry.buildAccessibilityServiceInfo({
+      packageName: 'com.example.other',
+    });
+    renderer.act(() => {
+      mock.emitAccessibilityServicesChanged([screenReader]);
+    });
+    expect(first.results.at(-1)?.data).toEqual([screenReader]);
+    expect(second.results.at(-1)?.data).toEqual([screenReader]);
+
+    renderer.act(() => first.root.unmount());
+    expect(library.default.getListenerCount()).toBe(1);
+    renderer.act(() => second.root.unmount());
+    await settle();
+    expect(library.default.getListenerCount()).toBe(0);
+    expect(mock.getIsListening()).toBe(false);
+  });
+
+  it('removes the listener when the last component unmounts before it is registered', async () => {
+    const { root } = renderServicesProbe();
+    renderer.act(() => root.unmount());
+    await settle();
+
+    expect(library.default.getListenerCount()).toBe(0);
+    expect(mock.getIsListening()).toBe(false);
+  });
+
+  it('refreshes when the app returns to the foreground', async () => {
+    const { results, root } = renderServicesProbe();
+    await settle();
+    expect(results.at(-1)?.data).toEqual([]);
+
+    const service = jestEntry.buildAccessibilityServiceInfo();
+    mock.setEnabledAccessibilityServices([service]);
+    renderer.act(() => {
+      emitAppState('background');
+      emitAppState('active');
+    });
+    await settle();
+
+    expect(results.at(-1)?.data).toEqual([service]);
+    renderer.act(() => root.unmount());
+  });
+
+  it('refreshes remote access apps when the app returns to the foreground', async () => {
+    const results: Library.DetectorQueryResult<Library.RemoteAccessApp>[] = [];
+    function Probe() {
+      results.push(library.useRemoteAccessApps());
+      return null;
+    }
+    let root: ReactTestRenderer.ReactTestRenderer | undefined;
+    renderer.act(() => {
+      root = renderer.create(React.createElement(Probe));
+    });
+    await settle();
+    expect(results.at(-1)).toMatchObject({ data: [], loading: false });
+
+    const app = jestEntry.buildRemoteAccessApp();
+    mock.setInstalledRemoteAccessApps([app]);
+    renderer.act(() => {
+      emitAppState('background');
+      emitAppState('active');
+    });
+    await settle();
+
+    expect(results.at(-1)?.data).toEqual([
+      expect.objectContaining({ packageName: app.packageName }),
+    ]);
+    renderer.act(() => root?.unmount());
+  });
+
+  it('exposes errors instead of leaving rejections unhandled', async () => {
+    load({ platform: 'ios' });
+    library.configure({ strictMode: true });
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    const { results, root } = renderServicesProbe();
+    await settle();
+
+    expect(results.at(-1)?.loading).toBe(false);
+    expect(results.at(-1)?.error).toBeInstanceOf(
+      library.UnsupportedPlatformError
+    );
+    await flushPromises();
+    expect(unhandled).not.toHaveBeenCalled();
+
+    process.off('unhandledRejection', unhandled);
+    renderer.act(() => root.unmount());
+  });
+});
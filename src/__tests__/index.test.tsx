@@ -1 +1,456 @@
-it.todo('write a test');
+import type * as JestEntry from '../jest';
+import type * as Library from '../index';
+
+let jestEntry: typeof JestEntry;
+let library: typeof Library;
+let mock: JestEntry.MockAccessibilityServicesDetector;
+
+function load(options: JestEntry.InstallMockOptions = {}): void {
+  jest.resetModules();
+  jestEntry = require('../jest');
+  mock = jestEntry.installMockAccessibilityServicesDetector(options);
+  library = require('../index');
+  library.configure({ logLevel: 'silent' });
+}
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('AccessibilityServicesDetector', () => {
+  beforeEach(() => load());
+
+  it('returns the services reported by the native module', async () => {
+    const service = jestEntry.buildAccessibilityServiceInfo();
+    mock.setEnabledAccessibilityServices([service]);
+
+    await expect(library.getEnabledAccessibilityServices()).resolves.toEqual([
+      service,
+    ]);
+    await expect(library.hasEnabledAccessibilityServices()).resolves.toBe(true);
+  });
+
+  it('exposes standalone functions bound to the detector', async () => {
+    const app = jestEntry.buildRemoteAccessApp();
+    mock.setInstalledRemoteAccessApps([app]);
+
+    const { getInstalledRemoteAccessApps, openAppAccessibilitySettings } =
+      library;
+    await expect(getInstalledRemoteAccessApps()).resolves.toEqual([
+      expect.objectContaining(app),
+    ]);
+    openAppAccessibilitySettings();
+    expect(mock.openAccessibilitySettingsCallCount).toBe(1);
+  });
+
+  it('starts listening with the first listener and stops with the last', async () => {
+    const detector = library.default;
+    const first = await detector.addAccessibilityServicesListener(() => {});
+    const second = await detector.addAccessibilityServicesListener(() => {});
+
+    expect(detector.getListenerCount()).toBe(2);
+    expect(detector.getListeningMode()).toBe('native');
+
+    first?.remove();
+    await flushPromises();
+    expect(mock.getIsListening()).toBe(true);
+
+    second?.remove();
+    await flushPromises();
+    expect(detector.getListenerCount()).toBe(0);
+    expect(mock.getIsListening()).toBe(false);
+  });
+
+  it('forwards change events to listeners', async () => {
+    const callback = jest.fn();
+    await library.default.addAccessibilityServicesListener(callback);
+
+    const services = [jestEntry.buildAccessibilityServiceInfo()];
+    mock.emitAccessibilityServicesChanged(services);
+
+    expect(callback).toHaveBeenCalledWith(services);
+  });
+
+  it('reports only what changed to change listeners', async () => {
+    const screenReader = jestEntry.buildAccessibilityServiceInfo();
+    const remoteControl = jestEntry.buildAccessibilityServiceInfo({
+      packageName: 'com.example.remote',
+    });
+    mock.setEnabledAccessibilityServices([screenReader]);
+
+    const callback = jest.fn();
+    await library.default.addAccessibilityServicesChangeListener(callback);
+
+    mock.emitAccessibilityServicesChanged([screenReader]);
+    expect(callback).not.toHaveBeenCalled();
+
+    mock.emitAccessibilityServicesChanged([remoteControl]);
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        added: [remoteControl],
+        removed: [screenReader],
+      })
+    );
+  });
+
+  it('adds catalog metadata to installed remote access apps', async () => {
+    const custom = jestEntry.buildRemoteAccessApp({
+      packageName: 'com.example.support',
+      appName: 'Example Support',
+    });
+    mock.setInstalledRemoteAccessApps([
+      jestEntry.buildRemoteAccessApp({ appName: '' }),
+      custom,
+    ]);
+
+    await expect(library.getInstalledRemoteAccessApps()).resolves.toEqual([
+      expect.objectContaining({
+        appName: 'TeamViewer QuickSupport',
+        vendor: 'TeamViewer',
+        category: 'remote-support',
+        riskTier: 'high',
+      }),
+      custom,
+    ]);
+  });
+
+  it('leaves icons out on request and loads them lazily', async () => {
+    const icon = 'data:image/png;base64,AAAA';
+    const service = jestEntry.buildAccessibilityServiceInfo({ appIcon: icon });
+    mock.setEnabledAccessibilityServices([service]);
+    mock.setAppIcon(service.packageName, icon);
+
+    const [withoutIcon] = await library.getEnabledAccessibilityServices({
+      includeIcons: false,
+    });
+    expect(withoutIcon).not.toHaveProperty('appIcon');
+
+    const detector = library.default;
+    await expect(detector.getAppIcon(service.packageName, 48)).resolves.toBe(
+      icon
+    );
+    await expect(detector.getAppIcon(service.packageName, 48)).resolves.toBe(
+      icon
+    );
+    await expect(detector.getAppIcon('com.example.missing')).resolves.toBe(
+      null
+    );
+    expect(mock.getAppIconCallCount).toBe(2);
+    await expect(detector.getAppIcon(service.packageName, 0)).rejects.toThrow(
+      'iconSize must be a positive integer'
+    );
+
+    detector.setIconOptions({ includeIcons: false });
+    expect(mock.eventIconOptions).toEqual({
+      includeIcons: false,
+      iconSize: null,
+    });
+  });
+
+  it('detects runtime packages and warns when they are not queryable', async () => {
+    const warn = jest.fn();
+    library.configure({
+      logLevel: 'warn',
+      logger: { ...library.consoleLogger, warn },
+    });
+    mock.setPackageVisibility({ canQueryAllPackages: false });
+    const detector = library.default;
+
+    await expect(
+      detector.registerRemoteAccessPackages(['com.example.remote'])
+    ).resolves.toEqual([
+      {
+        packageName: 'com.example.remote',
+        source: 'runtime',
+        isQueryable: false,
+      },
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('com.example.remote cannot be detected')
+    );
+
+    await detector.getInstalledRemoteAccessApps();
+    expect(mock.lastQueriedPackageNames).toContain('com.example.remote');
+
+    detector.unregisterRemoteAccessPackages(['com.example.remote']);
+    await detector.getInstalledRemoteAccessApps();
+    expect(mock.lastQueriedPackageNames).not.toContain('com.example.remote');
+  });
+
+  it('converts native rejections to AccessibilityDetectorErrors', async () => {
+    mock.rejectNextCall(
+      'getInstalledRemoteAccessApps',
+      Object.assign(new Error('Denied'), { code: 'VISIBILITY_RESTRICTED' })
+    );
+
+    await expect(library.getInstalledRemoteAccessApps()).rejects.toMatchObject({
+      code: 'E_VISIBILITY_RESTRICTED',
+      nativeCode: 'VISIBILITY_RESTRICTED',
+    });
+  });
+
+  it('throws when a listener cannot be added in strict mode', async () => {
+    library.configure({ strictMode: true });
+    mock.rejectNextCall(
+      'startListening',
+      Object.assign(new Error('Failed'), { code: 'START_LISTENING_ERROR' })
+    );
+
+    await expect(
+      library.default.addAccessibilityServicesListener(() => {})
+    ).rejects.toBeInstanceOf(library.ListenerError);
+  });
+
+  it('prefers the TurboModule over the bridge module', async () => {
+    jest.resetModules();
+    jestEntry = require('../jest');
+    jestEntry.installMockAccessibilityServicesDetector();
+    const turboModule = new jestEntry.MockAccessibilityServicesDetector({
+      enabledServices: [jestEntry.buildAccessibilityServiceInfo()],
+    });
+    jest
+      .spyOn(require('react-native').TurboModuleRegistry, 'get')
+      .mockReturnValue(turboModule);
+    library = require('../index');
+
+    await expect(
+      library.getEnabledAccessibilityServices()
+    ).resolves.toHaveLength(1);
+  });
+
+  it('captures services, remote access apps and settings in one snapshot', async () => {
+    const { AccessibilityInfo } = require('react-native');
+    jest
+      .mocked(AccessibilityInfo.isScreenReaderEnabled)
+      .mockResolvedValue(true);
+    mock.setEnabledAccessibilityServices([
+      jestEntry.buildAccessibilityServiceInfo({
+        appIcon: 'data:image/png;base64,AAAA',
+      }),
+    ]);
+    mock.setInstalledRemoteAccessApps([jestEntry.buildRemoteAccessApp()]);
+
+    const snapshot = await library.getAccessibilitySnapshot();
+
+    expect(snapshot).toMatchObject({
+      version: library.DEVICE_ACCESSIBILITY_SNAPSHOT_VERSION,
+      platform: 'android',
+      services: [expect.not.objectContaining({ appIcon: expect.anything() })],
+      remoteAccessApps: [
+        expect.objectContaining({
+          packageName: 'com.teamviewer.quicksupport.market',
+        }),
+      ],
+      settings: { screenReaderEnabled: true, reduceMotionEnabled: false },
+    });
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it('calls snapshot listeners when any source changes', async () => {
+    const { AccessibilityInfo } = require('react-native');
+    const callback = jest.fn();
+    const subscription =
+      await library.default.addAccessibilitySnapshotListener(callback);
+    const emitSetting = (event: string) =>
+      jest
+        .mocked(AccessibilityInfo.addEventListener)
+        .mock.calls.find(([name]: unknown[]) => name === event)?.[1]?.(true);
+
+    jest
+      .mocked(AccessibilityInfo.isReduceMotionEnabled)
+      .mockResolvedValue(true);
+    emitSetting('reduceMotionChanged');
+    await flushPromises();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].settings.reduceMotionEnabled).toBe(true);
+
+    // Same state: no call
+    emitSetting('reduceMotionChanged');
+    await flushPromises();
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    mock.emitAccessibilityServicesChanged([
+      jestEntry.buildAccessibilityServiceInfo(),
+    ]);
+    await flushPromises();
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback.mock.calls[1][0].services).toHaveLength(1);
+
+    subscription.remove();
+    await flushPromises();
+    expect(mock.getIsListening()).toBe(false);
+  });
+
+  it('releases the snapshot sources when a listener cannot be added', async () => {
+    const { AccessibilityInfo, AppState } = require('react-native');
+    library.configure({ strictMode: true });
+    mock.rejectNextCall(
+      'startListening',
+      Object.assign(new Error('Failed'), { code: 'START_LISTENING_ERROR' })
+    );
+
+    await expect(
+      library.default.addAccessibilitySnapshotListener(() => {})
+    ).rejects.toBeInstanceOf(library.ListenerError);
+
+    const removals = [
+      ...jest.mocked(AccessibilityInfo.addEventListener).mock.results,
+      ...jest.mocked(AppState.addEventListener).mock.results,
+    ].map(({ value }) => value.remove);
+    expect(removals.length).toBeGreaterThan(0);
+    removals.forEach((remove) => expect(remove).toHaveBeenCalled());
+
+    // The next listener starts the watcher again
+    const callback = jest.fn();
+    const subscription =
+      await library.default.addAccessibilitySnapshotListener(callback);
+    expect(mock.getIsListening()).toBe(true);
+    subscription.remove();
+  });
+
+  it('rejects every snapshot listener added while the start fails', async () => {
+    library.configure({ strictMode: true });
+    mock.rejectNextCall(
+      'startListening',
+      Object.assign(new Error('Failed'), { code: 'START_LISTENING_ERROR' })
+    );
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const results = await Promise.allSettled([
+      library.default.addAccessibilitySnapshotListener(first),
+      library.default.addAccessibilitySnapshotListener(second),
+    ]);
+    expect(results.map(({ status }) => status)).toEqual([
+      'rejected',
+      'rejected',
+    ]);
+
+    // A later listener starts the watcher on its own
+    const callback = jest.fn();
+    const subscription =
+      await library.default.addAccessibilitySnapshotListener(callback);
+    mock.emitAccessibilityServicesChanged([
+      jestEntry.buildAccessibilityServiceInfo(),
+    ]);
+    await flushPromises();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    subscription.remove();
+  });
+
+  it('maps the assistive technologies on iOS', async () => {
+    load({ platform: 'ios' });
+    jest
+      .mocked(require('react-native').AccessibilityInfo.isScreenReaderEnabled)
+      .mockResolvedValue(true);
+
+    await expect(library.getEnabledAccessibilityServices()).resolves.toEqual([
+      expect.objectContaining({
+        id: 'com.apple.Accessibility/VoiceOver',
+        label: 'VoiceOver',
+        feedbackTypeNames: ['FEEDBACK_SPOKEN'],
+        isSystemApp: true,
+      }),
+    ]);
+    await expect(library.hasEnabledAccessibilityServices()).resolves.toBe(true);
+    expect(library.getPlatformCapabilities()).toMatchObject({
+      platform: 'ios',
+      enabledServices: 'partial',
+      remoteAccessApps: 'none',
+    });
+  });
+
+  it('reports a screen reader without naming it on the web', async () => {
+    load({ platform: 'web' });
+    jest
+      .mocked(require('react-native').AccessibilityInfo.isScreenReaderEnabled)
+      .mockResolvedValue(true);
+
+    await expect(library.getEnabledAccessibilityServices()).resolves.toEqual([
+      expect.objectContaining({
+        id: 'web/screen-reader',
+        label: 'Screen reader',
+        feedbackTypeNames: ['FEEDBACK_SPOKEN'],
+      }),
+    ]);
+  });
+  it('reports iOS display settings as settings rather than services', async () => {
+    load({ platform: 'ios' });
+    const { AccessibilityInfo } = require('react-native');
+    jest.mocked(AccessibilityInfo.isBoldTextEnabled).mockResolvedValue(true);
+    jest
+      .mocked(AccessibilityInfo.isDarkerSystemColorsEnabled)
+      .mockResolvedValue(true);
+
+    await expect(library.getEnabledAccessibilityServices()).resolves.toEqual(
+      []
+    );
+    await expect(library.hasEnabledAccessibilityServices()).resolves.toBe(
+      false
+    );
+    const { settings } = await library.getAccessibilitySnapshot();
+    expect(settings).toMatchObject({
+      boldTextEnabled: true,
+      increaseContrastEnabled: true,
+      reduceTransparencyEnabled: false,
+    });
+  });
+
+  it('returns empty results for unsupported methods unless in strict mode', async () => {
+    load({ platform: 'ios' });
+
+    await expect(library.getInstalledRemoteAccessApps()).resolves.toEqual([]);
+
+    library.configure({ strictMode: true });
+    await expect(library.getInstalledRemoteAccessApps()).rejects.toBeInstanceOf(
+      library.UnsupportedPlatformError
+    );
+  });
+
+  it('reports change events below API 33 only while polling is enabled', () => {
+    load({ apiLevel: 30 });
+    expect(library.getPlatformCapabilities().changeEvents).toBe('partial');
+
+    library.default.setPollingOptions({ enabled: false });
+    expect(library.getPlatformCapabilities().changeEvents).toBe('none');
+
+    load({ apiLevel: 33 });
+    library.default.setPollingOptions({ enabled: false });
+    expect(library.getPlatformCapabilities().changeEvents).toBe('full');
+  });
+
+  it('rejects polling intervals that would poll in a tight loop', () => {
+    load({ apiLevel: 30 });
+    const detector = library.default;
+
+    [0, -1, NaN].forEach((intervalMs) =>
+      expect(() => detector.setPollingOptions({ intervalMs })).toThrow(
+        library.InvalidArgumentError
+      )
+    );
+    expect(() =>
+      detector.setPollingOptions({ intervalMs: 1000 })
+    ).not.toThrow();
+  });
+
+  it('reports full capabilities on Android and none on unknown platforms', () => {
+    expect(library.getPlatformCapabilities()).toEqual({
+      platform: 'android',
+      enabledServices: 'full',
+      changeEvents: 'full',
+      remoteAccessApps: 'full',
+      appIcons: 'full',
+      accessibilitySettings: 'full',
+    });
+
+    load({ platform: null });
+    Object.defineProperty(require('react-native').Platform, 'OS', {
+      value: 'windows',
+      configurable: true,
+    });
+    expect(library.getPlatformCapabilities()).toMatchObject({
+      platform: 'windows',
+      enabledServices: 'none',
+    });
+  });
+});
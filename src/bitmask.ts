@@ -0,0 +1,22 @@
+/**
+ * Numeric enum as emitted by TypeScript, with reverse mappings from value to name
+ */
+type BitmaskEnum = Record<string, string | number>;
+
+function isSingleBit(value: string | number | undefined): value is number {
+  // eslint-disable-next-line no-bitwise
+  return typeof value === 'number' && value > 0 && (value & (value - 1)) === 0;
+}
+
+/**
+ * Names of the single-bit members of a numeric enum set in a mask, lowest bit first
+ * @param enumObject - Enum whose members are bit values
+ * @param mask - Bitmask to decode
+ */
+export function decodeBitmask(enumObject: BitmaskEnum, mask: number): string[] {
+  return Object.keys(enumObject).filter((name) => {
+    const value = enumObject[name];
+    // eslint-disable-next-line no-bitwise
+    return isSingleBit(value) && (mask & value) !== 0;
+  });
+}
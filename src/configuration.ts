@@ -0,0 +1,83 @@
+import {
+  consoleLogger,
+  isLogLevelEnabled,
+  type Logger,
+  type LogLevel,
+} from './logger';
+
+export interface AccessibilityDetectorConfiguration {
+  /**
+   * Throw `AccessibilityDetectorError`s instead of logging and returning
+   * empty results, e.g. when a method is called on an unsupported platform
+   * or a listener cannot be added
+   * @default false
+   */
+  strictMode: boolean;
+  /**
+   * Where log messages are written
+   * @default consoleLogger
+   */
+  logger: Logger;
+  /**
+   * Minimum level of messages passed to the logger
+   * @default 'warn'
+   */
+  logLevel: LogLevel;
+}
+
+let configuration: AccessibilityDetectorConfiguration = {
+  strictMode: false,
+  logger: consoleLogger,
+  logLevel: 'warn',
+};
+
+/**
+ * Configure the library
+ * @param options - Options to change; omitted options keep their current value
+ *
+ * @example
+ * configure({
+ *   strictMode: true,
+ *   logLevel: __DEV__ ? 'debug' : 'error',
+ *   logger: {
+ *     debug: () => {},
+ *     info: (message) => telemetry.log(message),
+ *     warn: (message) => telemetry.log(message),
+ *     error: (message, error) => telemetry.captureException(error, { message }),
+ *   },
+ * });
+ */
+export function configure(
+  options: Partial<AccessibilityDetectorConfiguration>
+): void {
+  configuration = { ...configuration, ...options };
+}
+
+/**
+ * Get the current library configuration
+ */
+export function getConfiguration(): Readonly<AccessibilityDetectorConfiguration> {
+  return configuration;
+}
+
+function write(
+  level: Exclude<LogLevel, 'silent'>,
+  message: string,
+  args: unknown[]
+): void {
+  const { logger, logLevel } = configuration;
+  if (isLogLevelEnabled(level, logLevel)) {
+    logger[level](`[AccessibilityServicesDetector] ${message}`, ...args);
+  }
+}
+
+/**
+ * Logger used throughout the library; forwards to the configured logger
+ * when the message passes the configured log level
+ */
+export const log: Logger = {
+  debug: (message, ...args) => write('debug', message, args),
+  info: (message, ...args) => write('info', message, args),
+  warn: (message, ...args) => write('warn', message, args),
+  error: (message, ...args) => write('error', message, args),
+};
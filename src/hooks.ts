@@ -0,0 +1,208 @@
+import { useSyncExternalStore } from 'react';
+import {
+  AppState,
+  type AppStateStatus,
+  type EmitterSubscription,
+} from 'react-native';
+import AccessibilityServicesDetector from './AccessibilityServicesDetector';
+import type {
+  AccessibilityServiceInfo,
+  RemoteAccessApp,
+} from './AccessibilityServicesDetector.types';
+
+export interface DetectorQueryState<T> {
+  /** Latest data, or an empty list before the first load completes */
+  data: T[];
+  /** Whether a load is in progress */
+  loading: boolean;
+  /** Error from the latest load, or from the change listener, if it failed */
+  error: unknown;
+}
+
+export interface DetectorQueryResult<T> extends DetectorQueryState<T> {
+  /** Re-fetch the data from the native module */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Subscribes to a push source of fresh data and returns a function that unsubscribes
+ */
+type DataSource<T> = (
+  onData: (data: T[]) => void,
+  onError: (error: unknown) => void
+) => () => void;
+
+/**
+ * State shared by every component using the same hook, so that all of them
+ * are backed by a single native subscription and a single AppState listener
+ */
+class SharedDetectorQuery<T> {
+  private state: DetectorQueryState<T> = {
+    data: [],
+    loading: true,
+    error: null,
+  };
+  private readonly listeners = new Set<() => void>();
+  private teardown: (() => void) | null = null;
+  private requestId = 0;
+  // A failed subscription outlives successful loads: the data is no longer kept up to date
+  private sourceError: unknown = null;
+
+  constructor(
+    private readonly fetchData: () => Promise<T[]>,
+    private readonly subscribeToSource?: DataSource<T>
+  ) {}
+
+  public getSnapshot = (): DetectorQueryState<T> => this.state;
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  };
+
+  public refresh = async (): Promise<void> => {
+    const requestId = ++this.requestId;
+    this.setState({ ...this.state, loading: true });
+
+    try {
+      const data = await this.fetchData();
+      if (requestId === this.requestId) {
+        this.setState({ data, loading: false, error: this.sourceError });
+      }
+    } catch (error) {
+      if (requestId === this.requestId) {
+        this.setState({ ...this.state, loading: false, error });
+      }
+    }
+  };
+
+  private start(): void {
+    this.sourceError = null;
+    let appState: AppStateStatus = AppState.currentState;
+    const appStateSubscription = AppState.addEventListener(
+      'change',
+      (nextAppState) => {
+        if (appState !== 'active' && nextAppState === 'active') {
+          this.refresh();
+        }
+        appState = nextAppState;
+      }
+    );
+
+    const unsubscribeFromSource = this.subscribeToSource?.(
+      (data) => {
+        // Pushed data supersedes any load still in flight
+        this.requestId++;
+        this.setState({ data, loading: false, error: null });
+      },
+      (error) => {
+        this.sourceError = error;
+        this.setState({ ...this.state, error });
+      }
+    );
+
+    this.teardown = () => {
+      appStateSubscription.remove();
+      unsubscribeFromSource?.();
+    };
+
+    this.refresh();
+  }
+
+  private stop(): void {
+    this.teardown?.();
+    this.teardown = null;
+  }
+
+  private setState(state: DetectorQueryState<T>): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const subscribeToAccessibilityServices: DataSource<AccessibilityServiceInfo> = (
+  onData,
+  onError
+) => {
+  let active = true;
+  let subscription: EmitterSubscription | null = null;
+
+  AccessibilityServicesDetector.addAccessibilityServicesListener(onData)
+    .then((newSubscription) => {
+      if (active) {
+        subscription = newSubscription;
+      } else {
+        // The last component unmounted before the listener was registered
+        AccessibilityServicesDetector.removeAccessibilityServicesListener(
+          newSubscription
+        );
+      }
+    })
+    // Rejects in strict mode, e.g. on platforms without change events
+    .catch((error: unknown) => {
+      if (active) {
+        onError(error);
+      }
+    });
+
+  return () => {
+    active = false;
+    if (subscription) {
+      AccessibilityServicesDetector.removeAccessibilityServicesListener(
+        subscription
+      );
+      subscription = null;
+    }
+  };
+};
+
+const enabledAccessibilityServicesQuery =
+  new SharedDetectorQuery<AccessibilityServiceInfo>(
+    () => AccessibilityServicesDetector.getEnabledAccessibilityServices(),
+    subscribeToAccessibilityServices
+  );
+
+const remoteAccessAppsQuery = new SharedDetectorQuery<RemoteAccessApp>(() =>
+  AccessibilityServicesDetector.getInstalledRemoteAccessApps()
+);
+
+function useSharedDetectorQuery<T>(
+  query: SharedDetectorQuery<T>
+): DetectorQueryResult<T> {
+  const state = useSyncExternalStore(query.subscribe, query.getSnapshot);
+  return { ...state, refresh: query.refresh };
+}
+
+/**
+ * Get the enabled accessibility services and keep them up to date
+ *
+ * All components using this hook share a single listener registered through
+ * `addAccessibilityServicesListener`, which is removed when the last one
+ * unmounts. The list is also re-fetched when the app returns to the foreground.
+ *
+ * @example
+ * const { data: services, loading, error, refresh } =
+ *   useEnabledAccessibilityServices();
+ */
+export function useEnabledAccessibilityServices(): DetectorQueryResult<AccessibilityServiceInfo> {
+  return useSharedDetectorQuery(enabledAccessibilityServicesQuery);
+}
+
+/**
+ * Get the installed remote access apps, re-fetched when the app returns to the foreground
+ *
+ * @example
+ * const { data: remoteAccessApps, loading } = useRemoteAccessApps();
+ */
+export function useRemoteAccessApps(): DetectorQueryResult<RemoteAccessApp> {
+  return useSharedDetectorQuery(remoteAccessAppsQuery);
+}
@@ -0,0 +1,291 @@
+import { DeviceEventEmitter, NativeModules, Platform } from 'react-native';
+import type {
+  AccessibilityServiceInfo,
+  IAccessibilityServicesDetector,
+  IconOptions,
+  RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+import type { PackageVisibility } from '../RemoteAccessPackages';
+
+/**
+ * Native methods returning a promise, which can be made to reject
+ */
+export type MockAsyncMethod =
+  | 'getEnabledAccessibilityServices'
+  | 'hasEnabledAccessibilityServices'
+  | 'startListening'
+  | 'stopListening'
+  | 'getInstalledRemoteAccessApps'
+  | 'getAppIcon'
+  | 'getPackageVisibility';
+
+/**
+ * Controllable in-memory replacement for the native module
+ *
+ * @example
+ * const mock = installMockAccessibilityServicesDetector();
+ * mock.setEnabledAccessibilityServices([buildAccessibilityServiceInfo()]);
+ * mock.emitAccessibilityServicesChanged([]);
+ */
+export class MockAccessibilityServicesDetector
+  implements IAccessibilityServicesDetector
+{
+  private enabledServices: AccessibilityServiceInfo[] = [];
+  private remoteAccessApps: RemoteAccessApp[] = [];
+  private appIcons = new Map<string, string>();
+  private packageVisibility: PackageVisibility = {
+    manifestPackages: [],
+    canQueryAllPackages: true,
+  };
+  private isListening = false;
+  private pendingRejections = new Map<MockAsyncMethod, unknown>();
+
+  /** Number of times `openAccessibilitySettings` was called */
+  public openAccessibilitySettingsCallCount = 0;
+  /** Number of times `getAppIcon` was called */
+  public getAppIconCallCount = 0;
+  /** Icon options last passed to `setIconOptions` */
+  public eventIconOptions: IconOptions | null = null;
+  /** Package names last passed to `getInstalledRemoteAccessApps` */
+  public lastQueriedPackageNames: string[] = [];
+
+  constructor(
+    initialState: {
+      enabledServices?: AccessibilityServiceInfo[];
+      remoteAccessApps?: RemoteAccessApp[];
+    } = {}
+  ) {
+    this.enabledServices = initialState.enabledServices ?? [];
+    this.remoteAccessApps = initialState.remoteAccessApps ?? [];
+  }
+
+  /**
+   * Replace the services returned by `getEnabledAccessibilityServices`
+   */
+  public setEnabledAccessibilityServices(
+    services: AccessibilityServiceInfo[]
+  ): void {
+    this.enabledServices = services;
+  }
+
+  /**
+   * Replace the apps returned by `getInstalledRemoteAccessApps`
+   */
+  public setInstalledRemoteAccessApps(apps: RemoteAccessApp[]): void {
+    this.remoteAccessApps = apps;
+  }
+
+  /**
+   * Set the icon returned by `getAppIcon` for a package
+   * @param packageName - Package of the app
+   * @param dataUrl - Icon data URL, returned for every requested size
+   */
+  public setAppIcon(packageName: string, dataUrl: string): void {
+    this.appIcons.set(packageName, dataUrl);
+  }
+
+  /**
+   * Replace the package visibility returned by `getPackageVisibility`
+   */
+  public setPackageVisibility(visibility: Partial<PackageVisibility>): void {
+    this.packageVisibility = { ...this.packageVisibility, ...visibility };
+  }
+
+  /**
+   * Override the value returned by `getIsListening`
+   */
+  public setIsListening(isListening: boolean): void {
+    this.isListening = isListening;
+  }
+
+  /**
+   * Update the enabled services and emit an `AccessibilityServicesChanged`
+   * event, as the native module does when the user toggles a service
+   * @param services - New enabled services; defaults to the current ones
+   */
+  public emitAccessibilityServicesChanged(
+    services: AccessibilityServiceInfo[] = this.enabledServices
+  ): void {
+    this.enabledServices = services;
+    DeviceEventEmitter.emit('AccessibilityServicesChanged', services);
+  }
+
+  /**
+   * Make the next call to a native method reject with the given error
+   *
+   * @example
+   * mock.rejectNextCall(
+   *   'startListening',
+   *   Object.assign(new Error('failed'), { code: 'START_LISTENING_ERROR' })
+   * );
+   */
+  public rejectNextCall(method: MockAsyncMethod, error: unknown): void {
+    this.pendingRejections.set(method, error);
+  }
+
+  /**
+   * Restore the initial empty state
+   */
+  public reset(): void {
+    this.enabledServices = [];
+    this.remoteAccessApps = [];
+    this.appIcons.clear();
+    this.isListening = false;
+    this.pendingRejections.clear();
+    this.openAccessibilitySettingsCallCount = 0;
+    this.getAppIconCallCount = 0;
+    this.eventIconOptions = null;
+    this.lastQueriedPackageNames = [];
+    this.packageVisibility = {
+      manifestPackages: [],
+      canQueryAllPackages: true,
+    };
+  }
+
+  public getEnabledAccessibilityServices(
+    options?: IconOptions
+  ): Promise<AccessibilityServiceInfo[]> {
+    return this.resolve('getEnabledAccessibilityServices', () =>
+      this.withIcons(this.enabledServices, options)
+    );
+  }
+
+  public hasEnabledAccessibilityServices(): Promise<boolean> {
+    return this.resolve(
+      'hasEnabledAccessibilityServices',
+      () => this.enabledServices.length > 0
+    );
+  }
+
+  public addListener(): void {}
+
+  public removeListeners(): void {}
+
+  public startListening(): Promise<void> {
+    return this.resolve('startListening', () => {
+      this.isListening = true;
+    });
+  }
+
+  public stopListening(): Promise<void> {
+    return this.resolve('stopListening', () => {
+      this.isListening = false;
+    });
+  }
+
+  public getIsListening(): boolean {
+    return this.isListening;
+  }
+
+  public openAccessibilitySettings(): void {
+    this.openAccessibilitySettingsCallCount++;
+  }
+
+  public getInstalledRemoteAccessApps(
+    packageNames: string[] = [],
+    options?: IconOptions
+  ): Promise<RemoteAccessApp[]> {
+    this.lastQueriedPackageNames = packageNames;
+    return this.resolve('getInstalledRemoteAccessApps', () =>
+      this.withIcons(this.remoteAccessApps, options)
+    );
+  }
+
+  public getAppIcon(packageName: string): Promise<string | null> {
+    this.getAppIconCallCount++;
+    return this.resolve(
+      'getAppIcon',
+      () => this.appIcons.get(packageName) ?? null
+    );
+  }
+
+  public setIconOptions(options: IconOptions): void {
+    this.eventIconOptions = options;
+  }
+
+  public getPackageVisibility(): Promise<PackageVisibility> {
+    return this.resolve('getPackageVisibility', () => ({
+      manifestPackages: [...this.packageVisibility.manifestPackages],
+      canQueryAllPackages: this.packageVisibility.canQueryAllPackages,
+    }));
+  }
+
+  /**
+   * Copy results, leaving out icons when the caller asked for none
+   */
+  private withIcons<T extends { appIcon?: string }>(
+    items: T[],
+    options?: IconOptions
+  ): T[] {
+    if (options?.includeIcons !== false) {
+      return [...items];
+    }
+    return items.map(({ appIcon: _appIcon, ...item }) => item as T);
+  }
+
+  private resolve<T>(method: MockAsyncMethod, getValue: () => T): Promise<T> {
+    if (this.pendingRejections.has(method)) {
+      const error = this.pendingRejections.get(method);
+      this.pendingRejections.delete(method);
+      return Promise.reject(error);
+    }
+    return Promise.resolve(getValue());
+  }
+}
+
+export interface InstallMockOptions {
+  /**
+   * Mock to install; a new empty one is created when omitted
+   */
+  mock?: MockAccessibilityServicesDetector;
+  /**
+   * Value assigned to `Platform.OS`; pass `null` to leave it untouched
+   * @default 'android'
+   */
+  platform?: 'android' | 'ios' | 'web' | null;
+  /**
+   * Android API level assigned to `Platform.Version`. Levels below 33 make
+   * listeners use the polling fallback.
+   * @default 33
+   */
+  apiLevel?: number;
+}
+
+/**
+ * Install a mock as `NativeModules.AccessibilityServicesDetector`
+ *
+ * Must run before the library is imported, e.g. from a Jest `setupFiles`
+ * entry or after `jest.resetModules()`.
+ *
+ * @example
+ * // jest.setup.js
+ * import { installMockAccessibilityServicesDetector } from 'react-native-accessibility-services-detector/jest';
+ *
+ * global.accessibilityServicesDetectorMock = installMockAccessibilityServicesDetector();
+ */
+export function installMockAccessibilityServicesDetector(
+  options: InstallMockOptions = {}
+): MockAccessibilityServicesDetector {
+  const {
+    mock = new MockAccessibilityServicesDetector(),
+    platform = 'android',
+    apiLevel = 33,
+  } = options;
+
+  NativeModules.AccessibilityServicesDetector = mock;
+
+  if (platform) {
+    Object.defineProperty(Platform, 'OS', {
+      value: platform,
+      configurable: true,
+    });
+    if (platform === 'android') {
+      Object.defineProperty(Platform, 'Version', {
+        value: apiLevel,
+        configurable: true,
+      });
+    }
+  }
+
+  return mock;
+}
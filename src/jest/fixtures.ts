@@ -0,0 +1,84 @@
+import {
+  AccessibilityServiceCapability,
+  AccessibilityServiceEventType,
+  AccessibilityServiceFeedbackType,
+  AccessibilityServiceFlag,
+  type AccessibilityServiceInfo,
+  type CapabilityMask,
+  type FlagMask,
+  type RemoteAccessApp,
+} from '../AccessibilityServicesDetector.types';
+
+/* eslint-disable no-bitwise */
+const SCREEN_READER_FLAGS: FlagMask =
+  AccessibilityServiceFlag.FLAG_REQUEST_TOUCH_EXPLORATION_MODE |
+  AccessibilityServiceFlag.FLAG_REPORT_VIEW_IDS;
+
+const SCREEN_READER_CAPABILITIES: CapabilityMask =
+  AccessibilityServiceCapability.CAPABILITY_CAN_RETRIEVE_WINDOW_CONTENT |
+  AccessibilityServiceCapability.CAPABILITY_CAN_REQUEST_TOUCH_EXPLORATION;
+/* eslint-enable no-bitwise */
+
+/**
+ * Build an `AccessibilityServiceInfo` for tests
+ *
+ * Defaults describe a system screen reader; the `id` and `serviceName` are
+ * derived from `packageName` unless given.
+ *
+ * @example
+ * const overlay = buildAccessibilityServiceInfo({
+ *   packageName: 'com.example.overlay',
+ *   isSystemApp: false,
+ *   isAccessibilityTool: false,
+ * });
+ */
+export function buildAccessibilityServiceInfo(
+  overrides: Partial<AccessibilityServiceInfo> = {}
+): AccessibilityServiceInfo {
+  const packageName = overrides.packageName ?? 'com.example.screenreader';
+  const serviceName =
+    overrides.serviceName ?? `${packageName}.ScreenReaderService`;
+
+  return {
+    id: `${packageName}/${serviceName}`,
+    label: 'Screen Reader',
+    appLabel: 'Screen Reader',
+    feedbackType: AccessibilityServiceFeedbackType.FEEDBACK_SPOKEN,
+    feedbackTypeNames: ['FEEDBACK_SPOKEN'],
+    eventTypes: AccessibilityServiceEventType.TYPES_ALL_MASK,
+    eventTypeNames: ['TYPES_ALL_MASK'],
+    flags: SCREEN_READER_FLAGS,
+    flagNames: ['FLAG_REQUEST_TOUCH_EXPLORATION_MODE', 'FLAG_REPORT_VIEW_IDS'],
+    capabilities: SCREEN_READER_CAPABILITIES,
+    capabilityNames: [
+      'CAPABILITY_CAN_RETRIEVE_WINDOW_CONTENT',
+      'CAPABILITY_CAN_REQUEST_TOUCH_EXPLORATION',
+    ],
+    canRetrieveWindowContent: true,
+    targetedPackageNames: [],
+    isAccessibilityTool: true,
+    isSystemApp: true,
+    packageName,
+    serviceName,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a `RemoteAccessApp` for tests
+ *
+ * @example
+ * const anyDesk = buildRemoteAccessApp({
+ *   packageName: 'com.anydesk.anydeskandroid',
+ *   appName: 'AnyDesk',
+ * });
+ */
+export function buildRemoteAccessApp(
+  overrides: Partial<RemoteAccessApp> = {}
+): RemoteAccessApp {
+  return {
+    packageName: 'com.teamviewer.quicksupport.market',
+    appName: 'TeamViewer QuickSupport',
+    ...overrides,
+  };
+}
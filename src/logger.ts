@@ -0,0 +1,42 @@
+/**
+ * Log levels, from most to least verbose. `silent` disables logging.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Destination for the library's log messages, e.g. an adapter for your telemetry
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+export const LOG_LEVELS: readonly LogLevel[] = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+  'silent',
+];
+
+/**
+ * Logger writing to the JS console
+ */
+export const consoleLogger: Logger = {
+  debug: (message, ...args) => console.debug(message, ...args),
+  info: (message, ...args) => console.info(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
+
+/**
+ * Whether a message of the given level passes the minimum log level
+ */
+export function isLogLevelEnabled(
+  level: Exclude<LogLevel, 'silent'>,
+  minimumLevel: LogLevel
+): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimumLevel);
+}
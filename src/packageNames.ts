@@ -0,0 +1,90 @@
+/**
+ * Java identifiers: a letter or underscore followed by letters, digits or underscores
+ */
+const JAVA_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Reserved words that cannot be used as package name segments
+ */
+const JAVA_KEYWORDS = new Set([
+  'abstract',
+  'assert',
+  'boolean',
+  'break',
+  'byte',
+  'case',
+  'catch',
+  'char',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'do',
+  'double',
+  'else',
+  'enum',
+  'extends',
+  'false',
+  'final',
+  'finally',
+  'float',
+  'for',
+  'goto',
+  'if',
+  'implements',
+  'import',
+  'instanceof',
+  'int',
+  'interface',
+  'long',
+  'native',
+  'new',
+  'null',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'short',
+  'static',
+  'strictfp',
+  'super',
+  'switch',
+  'synchronized',
+  'this',
+  'throw',
+  'throws',
+  'transient',
+  'true',
+  'try',
+  'void',
+  'volatile',
+  'while',
+]);
+
+/**
+ * Explains why a string is not a valid Android package name
+ *
+ * Package names follow the Java package syntax: at least two segments
+ * separated by dots, each a Java identifier that is not a reserved word.
+ *
+ * @param packageName - The package name to check
+ * @returns The problem, or null if the package name is valid
+ */
+export function getPackageNameError(packageName: string): string | null {
+  if (packageName.trim().length === 0) {
+    return 'must not be empty';
+  }
+  const segments = packageName.split('.');
+  if (segments.length < 2) {
+    return `must have at least two segments separated by dots, got "${packageName}"`;
+  }
+  const invalidSegment = segments.find(
+    (segment) =>
+      !JAVA_IDENTIFIER_PATTERN.test(segment) || JAVA_KEYWORDS.has(segment)
+  );
+  if (invalidSegment !== undefined) {
+    return `must be a valid Java package name, "${invalidSegment}" is not a valid segment of "${packageName}"`;
+  }
+  return null;
+}
@@ -0,0 +1,40 @@
+import { LruCache } from './LruCache';
+
+/**
+ * Number of compiled patterns kept; patterns may come from a backend, so the
+ * cache is bounded
+ */
+const PATTERN_CACHE_CAPACITY = 200;
+
+const compiledPatterns = new LruCache<string, RegExp>(PATTERN_CACHE_CAPACITY);
+
+function compilePattern(pattern: string): RegExp {
+  let compiled = compiledPatterns.get(pattern);
+  if (!compiled) {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    compiled = new RegExp(`^${source}$`);
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Match a value against a pattern where `*` matches any sequence of characters
+ * (e.g. `com.samsung.*` matches every Samsung package). Patterns without `*`
+ * must match exactly.
+ */
+export function matchesPattern(
+  value: string | undefined | null,
+  pattern: string
+): boolean {
+  if (value == null) {
+    return false;
+  }
+  if (!pattern.includes('*')) {
+    return value === pattern;
+  }
+  return compilePattern(pattern).test(value);
+}